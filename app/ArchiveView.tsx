@@ -0,0 +1,120 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import BackgroundSlideshow from './BackgroundSlideshow'
+import FixtureList from './FixtureList'
+import MatchRow from './MatchRow'
+import StandingsTable from './StandingsTable'
+import TeamBadge from './TeamBadge'
+import TopScorers from './TopScorers'
+import { PLAYER_IMAGES } from './playerImages'
+import { SessionArchive, formatArchiveDate } from '../lib/archive'
+import { InvalidGameStateError, describeFormat, validateGameState } from '../lib/rotation'
+import { sessionStore } from '../lib/storage'
+
+interface ArchiveViewProps {
+  id: string
+}
+
+// Read-only view of an ended session
+export default function ArchiveView({ id }: ArchiveViewProps) {
+  const [archive, setArchive] = useState<SessionArchive | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    sessionStore.getArchive(id)
+      .then((found) => {
+        if (found) setArchive({ ...found, state: validateGameState(found.state) })
+        else setError('This session could not be found')
+      })
+      .catch((e) => {
+        console.error('Failed to load archived session:', e)
+        setError(e instanceof InvalidGameStateError
+          ? `This session's saved data is damaged: ${e.problems.join('; ')}`
+          : 'Could not load this session')
+      })
+      .finally(() => setLoading(false))
+  }, [id])
+
+  if (loading) {
+    return (
+      <main className="min-h-screen flex items-center justify-center">
+        <p className="text-glow text-xl animate-pulse">Loading session...</p>
+      </main>
+    )
+  }
+
+  if (!archive) {
+    return (
+      <main className="min-h-screen flex flex-col items-center justify-center gap-4">
+        <p className="text-glow text-xl">{error}</p>
+        <Link href="/history" className="glow-button">Back to past sessions</Link>
+      </main>
+    )
+  }
+
+  const { state } = archive
+
+  return (
+    <main className="min-h-screen p-8 relative">
+      <BackgroundSlideshow images={PLAYER_IMAGES} interval={4000} />
+
+      <div className="max-w-6xl mx-auto relative z-20">
+        <div className="text-center mb-12">
+          <h1 className="text-5xl font-bold mb-4 text-glow">{archive.name}</h1>
+          <p className="text-gray-400 text-lg">{formatArchiveDate(archive.ended_at)}</p>
+          <p className="text-sm text-gray-500 mt-2">
+            {state.match_history.length} matches · {state.total_teams} teams · {describeFormat(state)}
+          </p>
+          <Link href="/history" className="inline-block mt-3 text-xs text-gray-500 hover:text-glow">
+            ← Past sessions
+          </Link>
+        </div>
+
+        <div className="space-y-8">
+          <div className="glow-card">
+            <h3 className="text-xl font-bold mb-4 text-glow">Final Standings</h3>
+            <StandingsTable teams={state.teams} history={state.match_history} />
+          </div>
+
+          {state.format !== 'rotation' && (
+            <div className="glow-card">
+              <h3 className="text-xl font-bold mb-4 text-glow">Fixtures</h3>
+              <FixtureList state={state} />
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="glow-card">
+              <h3 className="text-xl font-bold mb-4 text-glow">Teams</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {state.teams.map((team) => (
+                  <TeamBadge key={team.id} team={team} showRoster />
+                ))}
+              </div>
+            </div>
+            <div className="glow-card">
+              <h3 className="text-xl font-bold mb-4 text-glow">Top Scorers</h3>
+              <TopScorers teams={state.teams} history={state.match_history} />
+            </div>
+          </div>
+
+          <div className="glow-card">
+            <h3 className="text-xl font-bold mb-4 text-glow">Match History</h3>
+            {state.match_history.length > 0 ? (
+              <div className="space-y-2 max-h-[40rem] overflow-y-auto">
+                {[...state.match_history].reverse().map((match) => (
+                  <MatchRow key={match.match_number} match={match} teams={state.teams} />
+                ))}
+              </div>
+            ) : (
+              <p className="text-gray-500">No matches were played</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </main>
+  )
+}
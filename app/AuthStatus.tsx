@@ -0,0 +1,41 @@
+'use client'
+
+import { useState } from 'react'
+import { AuthUser, signIn, signOut } from '../lib/auth'
+import { sessionStore } from '../lib/storage'
+
+interface AuthStatusProps {
+  user: AuthUser | null
+  onError: (message: string) => void
+}
+
+export default function AuthStatus({ user, onError }: AuthStatusProps) {
+  const [busy, setBusy] = useState(false)
+
+  if (!sessionStore.shared) return null
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true)
+    try {
+      await action()
+    } catch (e) {
+      console.error('Sign-in failed:', e)
+      onError((e as Error).message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return user ? (
+    <div className="flex items-center justify-center gap-2 text-xs text-gray-500">
+      <span>Signed in as <span className="text-gray-300">{user.name}</span></span>
+      <button onClick={() => run(signOut)} disabled={busy} className="hover:text-glow">
+        Sign out
+      </button>
+    </div>
+  ) : (
+    <button onClick={() => run(signIn)} disabled={busy} className="text-sm text-gray-400 hover:text-glow">
+      Sign in with Google
+    </button>
+  )
+}
@@ -0,0 +1,225 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { DEFAULT_TEAM_SIZE, generateBalancedTeams, swapPlayers, teamSkill } from '../lib/balance'
+import {
+  MAX_SKILL,
+  MIN_SKILL,
+  POSITIONS,
+  PoolPlayer,
+  Position,
+  removePlayer,
+  samePlayer,
+  upsertPlayer
+} from '../lib/players'
+import { Team, defaultTeam } from '../lib/rotation'
+import { sessionStore } from '../lib/storage'
+
+interface CheckInProps {
+  // The session whose owner's player pool is used
+  code: string
+  onStart: (teams: Team[]) => void
+}
+
+// Tick off arriving players from the saved pool, then split them into balanced teams
+export default function CheckIn({ code, onStart }: CheckInProps) {
+  const [pool, setPool] = useState<PoolPlayer[]>([])
+  const [loadingPool, setLoadingPool] = useState(true)
+  const [checkedIn, setCheckedIn] = useState<string[]>([])
+  const [newName, setNewName] = useState('')
+  const [generated, setGenerated] = useState<PoolPlayer[][] | null>(null)
+  const [selected, setSelected] = useState<{ team: number; index: number } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    sessionStore.loadPlayerPool(code)
+      .then(setPool)
+      .catch((e) => {
+        console.error('Failed to load player pool:', e)
+        setError('Could not load the saved player pool')
+      })
+      .finally(() => setLoadingPool(false))
+  }, [code])
+
+  const savePool = async (next: PoolPlayer[]) => {
+    setPool(next)
+    try {
+      await sessionStore.savePlayerPool(code, next)
+    } catch (e) {
+      console.error('Failed to save player pool:', e)
+      setError('Could not save the player pool')
+    }
+  }
+
+  const isCheckedIn = (name: string) => checkedIn.some((n) => samePlayer(n, name))
+
+  const toggleCheckIn = (name: string) => {
+    setCheckedIn(isCheckedIn(name) ? checkedIn.filter((n) => !samePlayer(n, name)) : [...checkedIn, name])
+    setGenerated(null)
+  }
+
+  const addPlayer = () => {
+    const name = newName.trim()
+    if (!name) return
+    const existing = pool.find((p) => samePlayer(p.name, name))
+    if (!existing) savePool(upsertPlayer(pool, { name }))
+    if (!isCheckedIn(name)) setCheckedIn([...checkedIn, existing?.name ?? name])
+    setNewName('')
+    setGenerated(null)
+  }
+
+  const updatePlayer = (player: PoolPlayer) => {
+    savePool(upsertPlayer(pool, player))
+    setGenerated(null)
+  }
+
+  const deletePlayer = (name: string) => {
+    savePool(removePlayer(pool, name))
+    setCheckedIn(checkedIn.filter((n) => !samePlayer(n, name)))
+    setGenerated(null)
+  }
+
+  const generate = () => {
+    try {
+      setGenerated(generateBalancedTeams(pool.filter((p) => isCheckedIn(p.name))))
+      setSelected(null)
+      setError(null)
+    } catch (e) {
+      setError((e as Error).message)
+    }
+  }
+
+  // Tap one player then another to swap them between teams
+  const selectPlayer = (team: number, index: number) => {
+    if (!generated) return
+    if (!selected) {
+      setSelected({ team, index })
+      return
+    }
+    if (selected.team !== team || selected.index !== index) {
+      setGenerated(swapPlayers(generated, selected, { team, index }))
+    }
+    setSelected(null)
+  }
+
+  const startWithTeams = () => {
+    if (!generated) return
+    onStart(generated.map((players, i) => ({ ...defaultTeam(i + 1), players: players.map((p) => p.name) })))
+  }
+
+  if (loadingPool) {
+    return <p className="text-gray-500 animate-pulse">Loading players...</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addPlayer()}
+          placeholder="Add a player"
+          className="input-field flex-1"
+        />
+        <button onClick={addPlayer} className="glow-button">Add</button>
+      </div>
+
+      <p className="text-sm text-gray-500">
+        {checkedIn.length} checked in · {DEFAULT_TEAM_SIZE}-a-side
+      </p>
+
+      <div className="space-y-2 max-h-80 overflow-y-auto pr-1">
+        {pool.length === 0 && <p className="text-gray-500">No saved players yet</p>}
+        {pool.map((player) => (
+          <div
+            key={player.name}
+            className={`bg-accent p-3 rounded-lg flex flex-wrap items-center gap-3 border
+              ${isCheckedIn(player.name) ? 'border-glow/50' : 'border-glow/10'}`}
+          >
+            <label className="flex items-center gap-2 flex-1 min-w-[8rem] cursor-pointer">
+              <input
+                type="checkbox"
+                checked={isCheckedIn(player.name)}
+                onChange={() => toggleCheckIn(player.name)}
+                className="w-5 h-5 accent-[#00ff88]"
+              />
+              <span className={isCheckedIn(player.name) ? 'text-white' : 'text-gray-400'}>{player.name}</span>
+              {player.rating !== undefined && (
+                <span className="text-xs font-mono text-gray-500" title="Rating after their last match">{player.rating}</span>
+              )}
+            </label>
+            <select
+              value={player.skill ?? ''}
+              onChange={(e) => updatePlayer({ ...player, skill: e.target.value ? Number(e.target.value) : undefined })}
+              className="input-field py-1 text-sm"
+              title="Skill rating"
+            >
+              <option value="">Skill –</option>
+              {Array.from({ length: MAX_SKILL - MIN_SKILL + 1 }, (_, i) => MIN_SKILL + i).map((skill) => (
+                <option key={skill} value={skill}>{'★'.repeat(skill)}</option>
+              ))}
+            </select>
+            <select
+              value={player.position ?? ''}
+              onChange={(e) => updatePlayer({ ...player, position: (e.target.value || undefined) as Position | undefined })}
+              className="input-field py-1 text-sm"
+              title="Position"
+            >
+              <option value="">Pos –</option>
+              {POSITIONS.map((position) => (
+                <option key={position} value={position}>{position}</option>
+              ))}
+            </select>
+            <button onClick={() => deletePlayer(player.name)} className="text-xs text-gray-500 hover:text-red-400">
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <button onClick={generate} className="glow-button w-full">
+        {generated ? 'Reshuffle Teams' : 'Generate Balanced Teams'}
+      </button>
+
+      {generated && (
+        <div className="space-y-3">
+          <p className="text-xs text-gray-500">Tap two players to swap them</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {generated.map((players, teamIndex) => {
+              const team = defaultTeam(teamIndex + 1)
+              return (
+                <div key={team.id} className="bg-accent rounded-lg p-3 border" style={{ borderColor: `${team.color}88` }}>
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="font-bold" style={{ color: team.color }}>{team.name}</span>
+                    <span className="text-xs text-gray-500">Skill {teamSkill(players)}</span>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {players.map((player, index) => (
+                      <button
+                        key={player.name}
+                        onClick={() => selectPlayer(teamIndex, index)}
+                        className={`text-sm px-2 py-1 rounded border transition-all duration-300
+                          ${selected?.team === teamIndex && selected.index === index
+                            ? 'border-glow text-glow'
+                            : 'border-glow/10 text-gray-300 hover:border-glow/40'}`}
+                      >
+                        {player.name}
+                        {player.position && <span className="ml-1 text-xs text-gray-500">{player.position}</span>}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+          <button onClick={startWithTeams} className="glow-button w-full">
+            Start Game with These Teams
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
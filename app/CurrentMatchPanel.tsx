@@ -0,0 +1,121 @@
+'use client'
+
+import { useState } from 'react'
+import TeamBadge from './TeamBadge'
+import { CurrentMatch, GameState, MatchResult, currentScore, findTeam, resultFromScore } from '../lib/rotation'
+import { formatTime } from '../lib/time'
+
+interface CurrentMatchPanelProps {
+  state: GameState
+  match: CurrentMatch
+  disabled: boolean
+  onGoal: (team: number, scorer?: string) => void
+  onRemoveGoal: (index: number) => void
+  onResult: (result?: MatchResult) => void
+}
+
+// Matchup, live score with scorers, and the buttons that finish the match
+export default function CurrentMatchPanel({ state, match, disabled, onGoal, onRemoveGoal, onResult }: CurrentMatchPanelProps) {
+  // Team whose roster is shown to pick the scorer from
+  const [scoringTeam, setScoringTeam] = useState<number | null>(null)
+  const team1 = findTeam(state, match.team1)
+  const team2 = findTeam(state, match.team2)
+  const score = currentScore(match)
+  const result = resultFromScore(score)
+
+  const tapGoal = (team: number) => {
+    if (findTeam(state, team).players.length === 0) {
+      onGoal(team)
+    } else {
+      setScoringTeam(scoringTeam === team ? null : team)
+    }
+  }
+
+  const pickScorer = (scorer?: string) => {
+    if (scoringTeam === null) return
+    onGoal(scoringTeam, scorer)
+    setScoringTeam(null)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-center gap-8">
+        <TeamBadge team={team1} className="text-3xl" showRoster />
+        <div className="text-center">
+          <div className="text-5xl font-mono font-bold text-white">
+            {score.team1} <span className="text-gray-500">–</span> {score.team2}
+          </div>
+        </div>
+        <TeamBadge team={team2} className="text-3xl" showRoster />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        {[team1, team2].map((team) => (
+          <button
+            key={team.id}
+            onClick={() => tapGoal(team.id)}
+            disabled={disabled}
+            className={`glow-button disabled:opacity-50 ${scoringTeam === team.id ? 'shadow-glow border-glow/60' : ''}`}
+          >
+            ⚽ Goal {team.name}
+          </button>
+        ))}
+      </div>
+
+      {scoringTeam !== null && (
+        <div className="bg-accent rounded-lg p-4 border border-glow/20">
+          <p className="text-sm text-gray-400 mb-3">Who scored for {findTeam(state, scoringTeam).name}?</p>
+          <div className="flex flex-wrap gap-2">
+            {findTeam(state, scoringTeam).players.map((player) => (
+              <button key={player} onClick={() => pickScorer(player)} className="team-badge text-sm">
+                {player}
+              </button>
+            ))}
+            <button onClick={() => pickScorer()} className="text-sm text-gray-400 hover:text-glow px-3">
+              Not sure
+            </button>
+          </div>
+        </div>
+      )}
+
+      {match.goals.length > 0 && (
+        <ul className="space-y-1 text-sm">
+          {match.goals.map((goal, index) => (
+            <li key={`${goal.time}-${index}`} className="flex items-center justify-center gap-3 text-gray-300">
+              <span className="font-mono text-gray-500">{formatTime(goal.time)}</span>
+              <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: findTeam(state, goal.team).color }} />
+              <span>{goal.scorer ?? findTeam(state, goal.team).name}</span>
+              <button
+                onClick={() => onRemoveGoal(index)}
+                disabled={disabled}
+                title="Remove this goal"
+                className="text-gray-500 hover:text-red-400 disabled:opacity-50"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {match.goals.length > 0 ? (
+        <button onClick={() => onResult()} disabled={disabled} className="glow-button w-full disabled:opacity-50">
+          Full Time — {result === 'draw' ? 'Draw' : `${result === 'team1_win' ? team1.name : team2.name} Win`}
+        </button>
+      ) : (
+        // No goals tracked: the result can still be recorded directly
+        <div className="grid grid-cols-3 gap-4">
+          <button onClick={() => onResult('team1_win')} disabled={disabled} className="glow-button disabled:opacity-50">
+            {team1.name} Wins
+          </button>
+          <button onClick={() => onResult('draw')} disabled={disabled} className="glow-button disabled:opacity-50">
+            Draw
+          </button>
+          <button onClick={() => onResult('team2_win')} disabled={disabled} className="glow-button disabled:opacity-50">
+            {team2.name} Wins
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
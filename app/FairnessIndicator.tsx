@@ -0,0 +1,43 @@
+import { Team } from '../lib/rotation'
+import { RatingTable, matchFairness, teamRating } from '../lib/ratings'
+
+interface FairnessIndicatorProps {
+  ratings: RatingTable
+  team1: Team
+  team2: Team
+}
+
+const VERDICTS = {
+  even: { label: 'Even match', className: 'text-green-400' },
+  edge: { label: 'Slight favourite', className: 'text-yellow-400' },
+  mismatch: { label: 'Likely mismatch', className: 'text-red-400' }
+}
+
+// Predicted win chances for the next match, from the players' ratings
+export default function FairnessIndicator({ ratings, team1, team2 }: FairnessIndicatorProps) {
+  if (team1.players.length === 0 || team2.players.length === 0) {
+    return <p className="text-xs text-gray-500">Add players to both teams to see how fair this match is</p>
+  }
+
+  const fairness = matchFairness(ratings, team1.players, team2.players)
+  const team1Pct = Math.round(fairness.team1_win * 100)
+  const verdict = VERDICTS[fairness.verdict]
+
+  return (
+    <div className="max-w-md mx-auto">
+      <div className="flex justify-between text-xs text-gray-400 mb-1">
+        <span>{team1.name} · {Math.round(teamRating(ratings, team1.players))}</span>
+        <span>{Math.round(teamRating(ratings, team2.players))} · {team2.name}</span>
+      </div>
+      <div className="flex h-2 rounded-full overflow-hidden bg-accent">
+        <div style={{ width: `${team1Pct}%`, backgroundColor: team1.color }} />
+        <div style={{ width: `${100 - team1Pct}%`, backgroundColor: team2.color }} />
+      </div>
+      <div className="flex justify-between text-xs mt-1">
+        <span className="font-mono text-gray-400">{team1Pct}%</span>
+        <span className={verdict.className}>{verdict.label}</span>
+        <span className="font-mono text-gray-400">{100 - team1Pct}%</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,60 @@
+import { GameState, activeMatches, findTeam, fixtureIndexFor, isBye, nextFixtureIndex, roundName, tieWinner } from '../lib/rotation'
+
+interface FixtureListProps {
+  state: GameState
+}
+
+// Every round robin or knockout fixture by round, with results filled in as they're played
+export default function FixtureList({ state }: FixtureListProps) {
+  const rounds = Array.from(new Set(state.fixtures.map((f) => f.round)))
+  const next = nextFixtureIndex(state)
+  const live = activeMatches(state).map(({ match }) => fixtureIndexFor(state.fixtures, match.team1, match.team2))
+  const teamLabel = (team: number | null) => (team === null ? 'TBD' : findTeam(state, team).name)
+
+  return (
+    <div className="space-y-4 max-h-96 overflow-y-auto pr-1">
+      {rounds.map((round) => (
+        <div key={round}>
+          <p className="text-xs uppercase tracking-wide text-gray-500 mb-2">{roundName(state, round)}</p>
+          <ul className="space-y-1 text-sm">
+            {state.fixtures.map((fixture, index) => {
+              if (fixture.round !== round) return null
+              const match = state.match_history.find((m) => m.match_number === fixture.match_number)
+              const winner = match ? tieWinner(match) : fixture.winner ?? null
+              const playing = live.includes(index)
+              return (
+                <li
+                  key={index}
+                  className={`flex items-center justify-between gap-2 px-3 py-1.5 rounded-lg bg-accent
+                    ${playing || index === next ? 'ring-1 ring-glow/60' : ''}`}
+                >
+                  {isBye(fixture) ? (
+                    <span className="text-gray-500">
+                      {teamLabel(fixture.winner!)} <span className="text-xs">— bye</span>
+                    </span>
+                  ) : (
+                    <span>
+                      <span className={winner === fixture.team1 && winner !== null ? 'text-glow font-bold' : 'text-gray-300'}>
+                        {teamLabel(fixture.team1)}
+                      </span>
+                      <span className="text-gray-500"> v </span>
+                      <span className={winner === fixture.team2 && winner !== null ? 'text-glow font-bold' : 'text-gray-300'}>
+                        {teamLabel(fixture.team2)}
+                      </span>
+                    </span>
+                  )}
+                  <span className="font-mono text-xs text-gray-400">
+                    {match?.score && `${match.score.team1}–${match.score.team2}`}
+                    {match?.penalties && ` (${match.penalties.team1}–${match.penalties.team2} pens)`}
+                    {match && !match.score && 'Played'}
+                    {playing && <span className="text-glow">Now</span>}
+                  </span>
+                </li>
+              )
+            })}
+          </ul>
+        </div>
+      ))}
+    </div>
+  )
+}
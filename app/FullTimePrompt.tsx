@@ -0,0 +1,53 @@
+import { CurrentMatch, GameState, MatchResult, currentScore, findTeam, resultFromScore } from '../lib/rotation'
+
+interface FullTimePromptProps {
+  state: GameState
+  match: CurrentMatch
+  reason: 'time' | 'goals'
+  disabled: boolean
+  onResult: (result?: MatchResult) => void
+  onDismiss: () => void
+}
+
+export default function FullTimePrompt({ state, match, reason, disabled, onResult, onDismiss }: FullTimePromptProps) {
+  const team1 = findTeam(state, match.team1)
+  const team2 = findTeam(state, match.team2)
+  const score = currentScore(match)
+  const result = resultFromScore(score)
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-6">
+      <div className="glow-card max-w-md w-full text-center space-y-6">
+        <div>
+          <h2 className="text-3xl font-bold text-glow mb-2">Full Time!</h2>
+          <p className="text-gray-400">
+            {reason === 'goals' ? 'The goal limit has been reached.' : 'The match time is up.'}
+          </p>
+        </div>
+        <p className="text-2xl">
+          {team1.name} <span className="font-mono font-bold">{score.team1} – {score.team2}</span> {team2.name}
+        </p>
+        {match.goals.length > 0 ? (
+          <button onClick={() => onResult()} disabled={disabled} className="glow-button w-full disabled:opacity-50">
+            Record {result === 'draw' ? 'Draw' : `${result === 'team1_win' ? team1.name : team2.name} Win`}
+          </button>
+        ) : (
+          <div className="grid grid-cols-3 gap-3">
+            <button onClick={() => onResult('team1_win')} disabled={disabled} className="glow-button px-2 disabled:opacity-50">
+              {team1.name}
+            </button>
+            <button onClick={() => onResult('draw')} disabled={disabled} className="glow-button px-2 disabled:opacity-50">
+              Draw
+            </button>
+            <button onClick={() => onResult('team2_win')} disabled={disabled} className="glow-button px-2 disabled:opacity-50">
+              {team2.name}
+            </button>
+          </div>
+        )}
+        <button onClick={onDismiss} className="text-sm text-gray-400 hover:text-white">
+          Keep playing
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,1183 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import AuthStatus from './AuthStatus'
+import BackgroundSlideshow from './BackgroundSlideshow'
+import CheckIn from './CheckIn'
+import FixtureList from './FixtureList'
+import InviteOrganiser from './InviteOrganiser'
+import MatchRow from './MatchRow'
+import PitchPanel from './PitchPanel'
+import QueueEditor from './QueueEditor'
+import SessionFileControls from './SessionFileControls'
+import SessionShare from './SessionShare'
+import RecoveryScreen from './RecoveryScreen'
+import SyncConflict from './SyncConflict'
+import StandingsTable from './StandingsTable'
+import TopScorers from './TopScorers'
+import TeamBadge from './TeamBadge'
+import TeamEditor from './TeamEditor'
+import TeamEventRow from './TeamEventRow'
+import { PLAYER_IMAGES } from './playerImages'
+import { useAuthUser } from './useAuthUser'
+import { ROLE_LABELS, SessionRole, canOrganise } from '../lib/auth'
+import { getDeviceId } from '../lib/device'
+import { SessionSummary, displayPath, sessionPath } from '../lib/session'
+import { ArchiveSummary, buildArchive } from '../lib/archive'
+import {
+  PendingChange,
+  cloudBasis,
+  flushPendingChanges,
+  loadPendingChanges,
+  retryDelay,
+  savePendingChanges
+} from '../lib/offlineQueue'
+import { ratedMatches, ratingsFromArchives, storeRatings } from '../lib/ratings'
+import { sessionStore } from '../lib/storage'
+import {
+  GameState,
+  RotationCommand,
+  RULE_SETS,
+  FORMATS,
+  RotationError,
+  StaleCommandError,
+  MatchSettings,
+  RuleSet,
+  RuleSetId,
+  SessionFormat,
+  Team,
+  applyCommand,
+  canRedo,
+  canUndo,
+  commandBasis,
+  createGameState,
+  DEFAULT_MAX_WINS,
+  DEFAULT_SETTINGS,
+  defaultTeam,
+  describeRules,
+  findTeam,
+  isBye,
+  nextPairing,
+  freePitch,
+  onPitch,
+  tournamentComplete,
+  InvalidGameStateError,
+  loadGameState,
+  teamStatus,
+  MIN_TEAMS,
+  MAX_TEAMS,
+  MAX_PITCHES
+} from '../lib/rotation'
+
+// Each session keeps its own local cache so switching sessions never mixes them up
+const localStateKey = (code: string) => `football_game_state:${code}`
+
+const asInvalidState = (e: unknown) =>
+  e instanceof InvalidGameStateError ? e : new InvalidGameStateError([(e as Error).message])
+
+interface GameSessionProps {
+  code: string
+  // Token from an organiser invite link
+  invite?: string
+}
+
+export default function GameSession({ code, invite }: GameSessionProps) {
+  const router = useRouter()
+  const { user, ready: authReady } = useAuthUser()
+  // Everyone watches until the backend says otherwise
+  const [role, setRole] = useState<SessionRole>(sessionStore.shared ? 'spectator' : 'owner')
+  const organiser = canOrganise(role)
+  const LOCAL_STATE_KEY = localStateKey(code)
+  const [totalTeams, setTotalTeams] = useState<number | ''>(8)
+  // Names, colours and rosters typed in before the game starts, indexed by team number - 1
+  const [setupTeams, setSetupTeams] = useState<Team[]>([])
+  const [customiseTeams, setCustomiseTeams] = useState(false)
+  const [setupMode, setSetupMode] = useState<'quick' | 'check_in'>('quick')
+  const [format, setFormat] = useState<SessionFormat>('rotation')
+  const [pitchCount, setPitchCount] = useState(1)
+  const [rules, setRules] = useState<RuleSet>({ id: 'classic', max_wins: DEFAULT_MAX_WINS })
+  const [matchSettings, setMatchSettings] = useState<MatchSettings>(DEFAULT_SETTINGS)
+  const [editingTeam, setEditingTeam] = useState<Team | null>(null)
+  // A late team being set up, and where it should join the queue
+  const [newTeam, setNewTeam] = useState<Team | null>(null)
+  const [newTeamPosition, setNewTeamPosition] = useState(0)
+  const [editingQueue, setEditingQueue] = useState(false)
+  const [gameState, setGameState] = useState<GameState | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loadingCloud, setLoadingCloud] = useState(true)
+  const [session, setSession] = useState<SessionSummary | null>(null)
+  const [notFound, setNotFound] = useState(false)
+  const [syncStatus, setSyncStatus] = useState<'synced' | 'saving' | 'error'>('synced')
+  const [connectedDevices, setConnectedDevices] = useState(1)
+  const [remoteNotice, setRemoteNotice] = useState(false)
+  const [commandPending, setCommandPending] = useState(false)
+  const remoteNoticeRef = useRef<NodeJS.Timeout | null>(null)
+  const deviceIdRef = useRef<string>('')
+  const gameStateRef = useRef<GameState | null>(null)
+  gameStateRef.current = gameState
+  // Changes that haven't reached the backend yet, oldest first. The ref is
+  // what the retry timer reads; the state drives the UI.
+  const [pending, setPending] = useState<PendingChange[]>([])
+  const pendingRef = useRef<PendingChange[]>([])
+  // Why the queued changes were refused, until the organiser picks a version
+  const [conflict, setConflict] = useState<string | null>(null)
+  // Set when a stored game fails validation; replaces the game with an explanation
+  const [recovery, setRecovery] = useState<{ error: InvalidGameStateError; source: 'cloud' | 'device' } | null>(null)
+  // The latest state the backend has reported, whatever this device shows
+  const cloudStateRef = useRef<GameState | null>(null)
+  const flushingRef = useRef(false)
+  const retryAttemptRef = useRef(0)
+  const retryTimerRef = useRef<NodeJS.Timeout | null>(null)
+
+  // Past results for player ratings; the live session's are added on top
+  const [archives, setArchives] = useState<ArchiveSummary[]>([])
+  // Only for results recorded before matches kept the time they finished
+  const [openedAt] = useState(() => Date.now())
+
+  useEffect(() => {
+    sessionStore.listArchives()
+      .then(setArchives)
+      .catch((e) => console.error('Failed to load past sessions for ratings:', e))
+  }, [])
+
+  const ratings = gameState
+    ? ratingsFromArchives(archives, ratedMatches(gameState.teams, gameState.match_history, openedAt))
+    : null
+
+  const handleTeamChange = (value: string) => {
+    if (value === '') { setTotalTeams(''); return }
+    const num = parseInt(value)
+    if (!isNaN(num)) setTotalTeams(num)
+  }
+
+  const incrementTeams = () => {
+    const current = totalTeams === '' ? MIN_TEAMS : totalTeams
+    if (current < MAX_TEAMS) setTotalTeams(current + 1)
+  }
+
+  const decrementTeams = () => {
+    const current = totalTeams === '' ? MIN_TEAMS : totalTeams
+    if (current > MIN_TEAMS) setTotalTeams(current - 1)
+  }
+
+  // The copy cached on this device; throws InvalidGameStateError if it's unusable
+  const readLocalState = useCallback((): GameState | null => {
+    const saved = localStorage.getItem(LOCAL_STATE_KEY)
+    if (!saved) return null
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(saved)
+    } catch {
+      throw new InvalidGameStateError(['the saved data is not valid JSON'], saved)
+    }
+    return loadGameState(parsed)
+  }, [LOCAL_STATE_KEY])
+
+  const updatePending = useCallback((changes: PendingChange[]) => {
+    pendingRef.current = changes
+    setPending(changes)
+    savePendingChanges(code, changes)
+  }, [code])
+
+  // The retry timer goes through the ref so it always calls the latest flushPending
+  const flushPendingRef = useRef<() => Promise<void>>(async () => {})
+
+  const scheduleRetry = useCallback(() => {
+    if (retryTimerRef.current) clearTimeout(retryTimerRef.current)
+    retryTimerRef.current = setTimeout(() => flushPendingRef.current(), retryDelay(retryAttemptRef.current))
+    retryAttemptRef.current++
+  }, [])
+
+  const queueChange = (change: PendingChange) => {
+    updatePending([...pendingRef.current, change])
+    setSyncStatus('error')
+    scheduleRetry()
+  }
+
+  // Send queued changes in order; reads only refs, so it is safe to call
+  // from timers and event listeners
+  const flushPending = useCallback(async () => {
+    if (flushingRef.current || pendingRef.current.length === 0) return
+    flushingRef.current = true
+    setSyncStatus('saving')
+    try {
+      const outcome = await flushPendingChanges(
+        sessionStore,
+        code,
+        deviceIdRef.current,
+        pendingRef.current,
+        updatePending
+      )
+      if (outcome.status === 'synced') {
+        retryAttemptRef.current = 0
+        setSyncStatus('synced')
+      } else if (outcome.status === 'offline') {
+        setSyncStatus('error')
+        scheduleRetry()
+      } else if (outcome.status === 'error') {
+        // Left queued, so they go once whatever refused them is put right —
+        // signing back in, say
+        setSyncStatus('error')
+        setError(`This device's unsynced changes were refused: ${outcome.reason}`)
+      } else {
+        setSyncStatus('error')
+        setConflict(outcome.reason)
+      }
+    } finally {
+      flushingRef.current = false
+    }
+  }, [code, updatePending, scheduleRetry])
+  flushPendingRef.current = flushPending
+
+  // Subscribe to the shared session: the first snapshot is the initial load,
+  // every later one is a change made on this or another device
+  useEffect(() => {
+    const deviceId = getDeviceId()
+    deviceIdRef.current = deviceId
+    let firstSnapshot = true
+    updatePending(loadPendingChanges(code))
+
+    const loadLocal = () => {
+      try {
+        setGameState(readLocalState())
+      } catch (e) {
+        console.error('Cached game on this device is unusable:', e)
+        setRecovery({ error: asInvalidState(e), source: 'device' })
+      }
+    }
+
+    const unsubscribe = sessionStore.subscribeToSession(
+      code,
+      deviceId,
+      ({ session, state, remote }) => {
+        setSession(session)
+        cloudStateRef.current = state
+        if (firstSnapshot) {
+          firstSnapshot = false
+          if (!session) {
+            setNotFound(true)
+          } else if (pendingRef.current.length > 0) {
+            // This device has newer changes than the cloud — keep them and send them
+            loadLocal()
+            flushPending()
+          } else if (state) {
+            setGameState(state)
+            localStorage.setItem(LOCAL_STATE_KEY, JSON.stringify(state))
+          } else {
+            // No game in the cloud yet — check local cache
+            loadLocal()
+          }
+          setLoadingCloud(false)
+          return
+        }
+        if (!remote) return
+        // Don't let the cloud overwrite changes still waiting to go; sending
+        // them will show whether the two versions conflict
+        if (pendingRef.current.length > 0) {
+          flushPending()
+          return
+        }
+
+        setGameState(state)
+        if (state) localStorage.setItem(LOCAL_STATE_KEY, JSON.stringify(state))
+        else localStorage.removeItem(LOCAL_STATE_KEY)
+        setSyncStatus('synced')
+
+        setRemoteNotice(true)
+        if (remoteNoticeRef.current) clearTimeout(remoteNoticeRef.current)
+        remoteNoticeRef.current = setTimeout(() => setRemoteNotice(false), 4000)
+      },
+      (e) => {
+        if (e instanceof InvalidGameStateError) {
+          console.error('Cloud game failed validation:', e.problems)
+          setRecovery({ error: e, source: 'cloud' })
+          if (firstSnapshot) {
+            firstSnapshot = false
+            setLoadingCloud(false)
+          }
+          return
+        }
+        console.error('Failed to load from cloud, using local cache:', e)
+        if (firstSnapshot) {
+          firstSnapshot = false
+          loadLocal()
+          setLoadingCloud(false)
+        }
+        setSyncStatus('error')
+      }
+    )
+    const leavePresence = sessionStore.joinPresence(code, deviceId, (count) => setConnectedDevices(Math.max(count, 1)))
+
+    // Back online: retry straight away rather than waiting out the backoff
+    const onOnline = () => {
+      retryAttemptRef.current = 0
+      flushPending()
+    }
+    window.addEventListener('online', onOnline)
+
+    return () => {
+      unsubscribe()
+      leavePresence()
+      window.removeEventListener('online', onOnline)
+      if (remoteNoticeRef.current) clearTimeout(remoteNoticeRef.current)
+      if (retryTimerRef.current) clearTimeout(retryTimerRef.current)
+    }
+  }, [code, LOCAL_STATE_KEY, readLocalState, updatePending, flushPending])
+
+  useEffect(() => {
+    if (!authReady) return
+    let cancelled = false
+    const resolveRole = async () => {
+      try {
+        if (invite && user) {
+          await sessionStore.acceptInvite(code, invite)
+          router.replace(sessionPath(code))
+        }
+        const next = await sessionStore.getRole(code, user?.uid ?? null)
+        if (!cancelled) setRole(next)
+      } catch (e) {
+        console.error('Failed to check session role:', e)
+        if (!cancelled) setError((e as Error).message)
+      }
+    }
+    resolveRole()
+    return () => { cancelled = true }
+  }, [authReady, user, code, invite, router])
+
+  // Sessions from before sign-in can't be changed until someone owns them
+  const claimable = role === 'spectator' && user !== null && session?.owner === null
+  const claimSession = async () => {
+    try {
+      await sessionStore.claimSession(code)
+      setRole(await sessionStore.getRole(code, user?.uid ?? null))
+    } catch (e) {
+      console.error('Failed to claim session:', e)
+      setError((e as Error).message)
+    }
+  }
+
+  // Overwrite the cloud with this device's version, however far it has moved on
+  const keepLocalVersion = () => {
+    setConflict(null)
+    retryAttemptRef.current = 0
+    updatePending([{ kind: 'save', state: gameStateRef.current, cloud_basis: null, queued_at: Date.now() }])
+    flushPending()
+  }
+
+  // Throw away the changes made offline
+  const takeCloudVersion = () => {
+    const cloud = cloudStateRef.current
+    setConflict(null)
+    updatePending([])
+    setGameState(cloud)
+    if (cloud) localStorage.setItem(LOCAL_STATE_KEY, JSON.stringify(cloud))
+    else localStorage.removeItem(LOCAL_STATE_KEY)
+    setSyncStatus('synced')
+  }
+
+  // Apply a local change: show it immediately, cache it, then push it to the
+  // cloud — or queue it if the cloud can't be reached
+  const commitState = async (next: GameState | null) => {
+    if (!organiser) {
+      setError('Only the session\'s organisers can change the game')
+      return
+    }
+    const change: PendingChange = {
+      kind: 'save',
+      state: next,
+      cloud_basis: cloudBasis(cloudStateRef.current),
+      queued_at: Date.now()
+    }
+    setGameState(next)
+    if (next) localStorage.setItem(LOCAL_STATE_KEY, JSON.stringify(next))
+    else localStorage.removeItem(LOCAL_STATE_KEY)
+    if (pendingRef.current.length > 0) {
+      queueChange(change)
+      flushPending()
+      return
+    }
+    setSyncStatus('saving')
+    try {
+      await sessionStore.saveSession(code, next, deviceIdRef.current, change.cloud_basis)
+      setSyncStatus('synced')
+    } catch (e) {
+      // Someone else changed the game first: keep this change until the
+      // organiser picks which version wins
+      if (e instanceof StaleCommandError) {
+        updatePending([...pendingRef.current, change])
+        setSyncStatus('error')
+        setConflict(e.message)
+        return
+      }
+      if (e instanceof RotationError) {
+        setSyncStatus('error')
+        setError(e.message)
+        return
+      }
+      console.error('Failed to sync to cloud, queued for retry:', e)
+      queueChange(change)
+    }
+  }
+
+  const teamsForCount = (count: number): Team[] =>
+    Array.from({ length: count }, (_, i) => setupTeams[i] ?? defaultTeam(i + 1))
+
+  const updateSetupTeam = (team: Team) => {
+    const count = Math.max(setupTeams.length, team.id)
+    setSetupTeams(Array.from({ length: count }, (_, i) => (i === team.id - 1 ? team : setupTeams[i] ?? defaultTeam(i + 1))))
+  }
+
+  const startNewGame = (teams?: Team[]) => {
+    try {
+      commitState(createGameState(teams ?? teamsForCount(totalTeams === '' ? MIN_TEAMS : totalTeams), rules, matchSettings, format, pitchCount))
+      setError(null)
+    } catch (e) {
+      setError((e as Error).message)
+    }
+  }
+
+  // Run a command through the rotation engine inside a cloud transaction.
+  // Rejected or stale commands surface as errors; if the cloud is unreachable
+  // the command is applied locally and queued to be sent later.
+  const runCommand = async (command: RotationCommand): Promise<boolean> => {
+    if (!gameState || commandPending) return false
+    if (!organiser) {
+      setError('Only the session\'s organisers can change the game')
+      return false
+    }
+    let next: GameState
+    try {
+      next = applyCommand(gameState, command)
+    } catch (e) {
+      setError((e as Error).message)
+      return false
+    }
+
+    const change: PendingChange = { kind: 'command', command, basis: commandBasis(gameState), queued_at: Date.now() }
+    // Anything already waiting has to reach the cloud first
+    if (pendingRef.current.length > 0) {
+      setGameState(next)
+      localStorage.setItem(LOCAL_STATE_KEY, JSON.stringify(next))
+      queueChange(change)
+      flushPending()
+      return true
+    }
+
+    setCommandPending(true)
+    setSyncStatus('saving')
+    try {
+      const applied = await sessionStore.applySessionCommand(code, command, change.basis, deviceIdRef.current)
+      setGameState(applied)
+      localStorage.setItem(LOCAL_STATE_KEY, JSON.stringify(applied))
+      setSyncStatus('synced')
+      setError(null)
+      if (command.type === 'record_result') storePlayerRatings(applied)
+      return true
+    } catch (e) {
+      if (e instanceof RotationError) {
+        setSyncStatus('synced')
+        setError(e.message)
+        return false
+      }
+      console.error('Failed to sync to cloud, queued for retry:', e)
+      setGameState(next)
+      localStorage.setItem(LOCAL_STATE_KEY, JSON.stringify(next))
+      queueChange(change)
+      setError(null)
+      return true
+    } finally {
+      setCommandPending(false)
+    }
+  }
+
+  // Each player in the pool keeps their rating as of their latest result.
+  // Best effort: the ratings themselves are always replayed from the results.
+  const storePlayerRatings = async (state: GameState) => {
+    const match = state.match_history[state.match_history.length - 1]
+    if (!match?.lineups) return
+    const latest = ratingsFromArchives(archives, ratedMatches(state.teams, state.match_history, openedAt))
+    try {
+      const pool = await sessionStore.loadPlayerPool(code)
+      await sessionStore.savePlayerPool(code, storeRatings(pool, latest, [...match.lineups.team1, ...match.lineups.team2]))
+    } catch (e) {
+      console.error('Failed to save player ratings:', e)
+    }
+  }
+
+  const stepHistory = (type: 'undo' | 'redo') => {
+    runCommand({ type })
+  }
+
+  // An imported file replaces the game wholesale, like starting a new one
+  const importState = (imported: GameState) => {
+    commitState(imported)
+    setError(null)
+  }
+
+  const saveTeamEdit = async () => {
+    if (!editingTeam) return
+    if (await runCommand({ type: 'update_team', team: editingTeam })) setEditingTeam(null)
+  }
+
+  const startAddingTeam = () => {
+    if (!gameState) return
+    const id = Math.max(0, ...gameState.teams.map((t) => t.id)) + 1
+    setNewTeam(defaultTeam(id))
+    setNewTeamPosition(gameState.waiting_queue.length)
+  }
+
+  const saveNewTeam = async () => {
+    if (!newTeam) return
+    // The engine picks the id
+    const team = { name: newTeam.name, color: newTeam.color, players: newTeam.players }
+    if (await runCommand({ type: 'add_team', team, position: newTeamPosition, now: Date.now() })) setNewTeam(null)
+  }
+
+  const withdrawTeam = (team: Team) => {
+    const playing = gameState && teamStatus(gameState, team.id) === 'playing'
+    const warning = playing ? ' The current match will be abandoned.' : ''
+    if (!window.confirm(`Withdraw ${team.name} from the session?${warning}`)) return
+    runCommand({ type: 'withdraw_team', team: team.id, now: Date.now() })
+  }
+
+  // Played matches are archived before the live game is cleared, so nothing is lost
+  const endSession = async () => {
+    if (gameState && session && gameState.match_history.length > 0) {
+      if (!window.confirm('End this session? Its results will be saved to the history.')) return
+      try {
+        await sessionStore.archiveSession(buildArchive(session, gameState, Date.now()))
+      } catch (e) {
+        console.error('Failed to archive session:', e)
+        setError(`Could not archive this session, so it has not been ended: ${(e as Error).message}`)
+        return
+      }
+    }
+    await commitState(null)
+    setError(null)
+  }
+
+  const localBackup = (): GameState | null => {
+    try {
+      return readLocalState()
+    } catch {
+      return null
+    }
+  }
+
+  const restoreBackup = async () => {
+    const backup = localBackup()
+    if (!backup) return
+    setRecovery(null)
+    await commitState(backup)
+  }
+
+  const discardDamaged = async () => {
+    const source = recovery?.source
+    setRecovery(null)
+    if (source === 'cloud') {
+      await commitState(null)
+    } else {
+      localStorage.removeItem(LOCAL_STATE_KEY)
+      setGameState(null)
+    }
+  }
+
+  // Show a simple loading state while we check the cloud for an existing session
+  if (loadingCloud) {
+    return (
+      <main className="min-h-screen flex items-center justify-center">
+        <p className="text-glow text-xl animate-pulse">Loading game...</p>
+      </main>
+    )
+  }
+
+  if (notFound) {
+    return (
+      <main className="min-h-screen flex flex-col items-center justify-center gap-4">
+        <p className="text-glow text-xl">No session found with code {code}</p>
+        <Link href="/" className="glow-button">Back to sessions</Link>
+      </main>
+    )
+  }
+
+  if (recovery) {
+    return (
+      <RecoveryScreen
+        code={code}
+        error={recovery.error}
+        source={recovery.source}
+        backup={recovery.source === 'cloud' ? localBackup() : null}
+        canRepair={organiser}
+        onRestoreBackup={restoreBackup}
+        onDiscard={discardDamaged}
+      />
+    )
+  }
+
+  return (
+    <main className="min-h-screen p-8 relative">
+      <BackgroundSlideshow images={PLAYER_IMAGES} interval={4000} />
+
+      <div className="max-w-6xl mx-auto relative z-20">
+        {/* Header */}
+        <div className="text-center mb-12">
+          <h1 className="text-5xl font-bold mb-4 text-glow">
+            Street Football Rotation Manager
+          </h1>
+          <p className="text-gray-400 text-lg">{session?.name ?? '4-a-side team rotation system'}</p>
+          <div className="mt-4 flex flex-col items-center gap-2">
+            <SessionShare code={code} />
+            <div className="flex gap-4">
+              <Link href="/" className="text-xs text-gray-500 hover:text-glow">← All sessions</Link>
+              <Link href="/history" className="text-xs text-gray-500 hover:text-glow">Past sessions</Link>
+              <Link href={displayPath(code)} target="_blank" className="text-xs text-gray-500 hover:text-glow">Scoreboard display</Link>
+            </div>
+            {sessionStore.shared && (
+              <>
+                <AuthStatus user={user} onError={setError} />
+                <p className="text-xs text-gray-500">
+                  Role: <span className="text-glow">{ROLE_LABELS[role]}</span>
+                  {role === 'spectator' && (invite && !user
+                    ? ' — sign in to accept your organiser invite'
+                    : claimable
+                      ? ' — nobody owns this session yet, so nobody can change the game'
+                      : ' — you can watch but not change the game')}
+                </p>
+                {claimable && (
+                  <button onClick={claimSession} className="text-xs text-gray-500 hover:text-glow">
+                    Claim this session
+                  </button>
+                )}
+                {role === 'owner' && <InviteOrganiser code={code} onError={setError} />}
+              </>
+            )}
+          </div>
+
+          {/* Sync status indicator */}
+          {gameState && (
+            <div className="flex items-center justify-center gap-2 mt-3">
+              <span className={`w-2 h-2 rounded-full ${
+                syncStatus === 'synced' ? 'bg-green-500' :
+                syncStatus === 'saving' ? 'bg-yellow-500 animate-pulse' :
+                'bg-red-500'
+              }`} />
+              <span className="text-xs text-gray-500">
+                {syncStatus === 'synced' && (sessionStore.shared ? 'Synced to cloud' : 'Saved on this device')}
+                {syncStatus === 'saving' && 'Saving...'}
+                {syncStatus === 'error' && (pending.length > 0
+                  ? `Offline — ${pending.length} ${pending.length === 1 ? 'change' : 'changes'} waiting to sync`
+                  : 'Sync failed')}
+              </span>
+              {sessionStore.shared && (
+                <span className="text-xs text-gray-500">
+                  · {connectedDevices} {connectedDevices === 1 ? 'device' : 'devices'} connected
+                </span>
+              )}
+            </div>
+          )}
+          {remoteNotice && (
+            <p className="text-xs text-glow mt-2 animate-pulse">Updated from another device</p>
+          )}
+        </div>
+
+        {/* Error Display */}
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/50 text-red-400 px-6 py-4 rounded-lg mb-6">
+            {error}
+          </div>
+        )}
+
+        {conflict && (
+          <SyncConflict
+            reason={conflict}
+            local={gameState}
+            cloud={cloudStateRef.current}
+            pendingCount={pending.length}
+            onKeepLocal={keepLocalVersion}
+            onUseCloud={takeCloudVersion}
+          />
+        )}
+
+        {!gameState && !organiser && (
+          <div className="glow-card mx-auto max-w-md text-center">
+            <p className="text-gray-400">Waiting for an organiser to start the game</p>
+          </div>
+        )}
+
+        {/* Start Game Section */}
+        {!gameState && organiser && (
+          <div className={`glow-card mx-auto ${setupMode === 'check_in' ? 'max-w-2xl' : 'max-w-md'}`}>
+            <h2 className="text-2xl font-bold mb-6 text-glow">Start New Game</h2>
+            <div className="flex gap-2 mb-6">
+              {(['quick', 'check_in'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setSetupMode(mode)}
+                  className={`flex-1 py-2 rounded-lg border text-sm transition-all duration-300
+                    ${setupMode === mode ? 'border-glow/60 text-glow bg-glow/10' : 'border-glow/10 text-gray-400 hover:border-glow/30'}`}
+                >
+                  {mode === 'quick' ? 'Number of Teams' : 'Player Check-in'}
+                </button>
+              ))}
+            </div>
+            <div className="mb-6 space-y-2">
+              <label className="block text-gray-400">Format</label>
+              <select
+                value={format}
+                onChange={(e) => setFormat(e.target.value as SessionFormat)}
+                className="input-field w-full"
+              >
+                {(Object.keys(FORMATS) as SessionFormat[]).map((id) => (
+                  <option key={id} value={id}>{FORMATS[id].name}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500">{FORMATS[format].description}</p>
+              <label className="flex items-center gap-3 text-sm text-gray-400">
+                Pitches
+                <select
+                  value={pitchCount}
+                  onChange={(e) => setPitchCount(parseInt(e.target.value))}
+                  className="input-field w-20 text-center"
+                >
+                  {Array.from({ length: MAX_PITCHES }, (_, i) => i + 1).map((count) => (
+                    <option key={count} value={count}>{count}</option>
+                  ))}
+                </select>
+                <span className="text-xs text-gray-500">All fed from the same queue</span>
+              </label>
+            </div>
+            {format === 'rotation' && (
+              <div className="mb-6 space-y-2">
+                <label className="block text-gray-400">Rotation Rules</label>
+                <select
+                  value={rules.id}
+                  onChange={(e) => setRules({ ...rules, id: e.target.value as RuleSetId })}
+                  className="input-field w-full"
+                >
+                  {(Object.keys(RULE_SETS) as RuleSetId[]).map((id) => (
+                    <option key={id} value={id}>{RULE_SETS[id].name}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500">{RULE_SETS[rules.id].description}</p>
+                {rules.id === 'winner_capped' && (
+                  <label className="flex items-center gap-3 text-sm text-gray-400">
+                    Max wins in a row
+                    <input
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={rules.max_wins ?? DEFAULT_MAX_WINS}
+                      onChange={(e) => setRules({ ...rules, max_wins: Number(e.target.value) || DEFAULT_MAX_WINS })}
+                      className="input-field w-20 text-center"
+                    />
+                  </label>
+                )}
+              </div>
+            )}
+            <div className="mb-6 grid grid-cols-2 gap-3">
+              <label className="text-sm text-gray-400">
+                Match length (min)
+                <input
+                  type="number"
+                  min={1}
+                  value={matchSettings.match_minutes ?? ''}
+                  onChange={(e) => setMatchSettings({ ...matchSettings, match_minutes: e.target.value ? Number(e.target.value) : null })}
+                  placeholder="No limit"
+                  className="input-field w-full mt-1"
+                />
+              </label>
+              <label className="text-sm text-gray-400">
+                First to (goals)
+                <input
+                  type="number"
+                  min={1}
+                  value={matchSettings.goal_limit ?? ''}
+                  onChange={(e) => setMatchSettings({ ...matchSettings, goal_limit: e.target.value ? Number(e.target.value) : null })}
+                  placeholder="No limit"
+                  className="input-field w-full mt-1"
+                />
+              </label>
+              <label className="col-span-2 flex items-center gap-2 text-sm text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={matchSettings.auto_prompt}
+                  onChange={(e) => setMatchSettings({ ...matchSettings, auto_prompt: e.target.checked })}
+                  className="w-4 h-4 accent-[#00ff88]"
+                />
+                Ask for the result at full time
+              </label>
+            </div>
+            {setupMode === 'check_in' ? (
+              <CheckIn code={code} onStart={startNewGame} />
+            ) : (
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-gray-400 mb-2">Number of Teams (3-20)</label>
+                  <div className="flex items-center gap-3">
+                    <button
+                      type="button"
+                      onClick={decrementTeams}
+                      disabled={totalTeams !== '' && totalTeams <= MIN_TEAMS}
+                      className="flex-shrink-0 w-12 h-12 bg-accent border border-glow/30 text-glow font-bold text-xl 
+                               rounded-lg transition-all duration-300 hover:bg-glow/10 hover:border-glow/60 
+                               hover:shadow-glow disabled:opacity-30 disabled:cursor-not-allowed active:scale-95"
+                    >
+                      −
+                    </button>
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      pattern="[0-9]*"
+                      value={totalTeams}
+                      onChange={(e) => handleTeamChange(e.target.value)}
+                      onFocus={(e) => e.target.select()}
+                      placeholder="8"
+                      className="input-field w-full text-center text-2xl font-bold"
+                    />
+                    <button
+                      type="button"
+                      onClick={incrementTeams}
+                      disabled={totalTeams !== '' && totalTeams >= MAX_TEAMS}
+                      className="flex-shrink-0 w-12 h-12 bg-accent border border-glow/30 text-glow font-bold text-xl 
+                               rounded-lg transition-all duration-300 hover:bg-glow/10 hover:border-glow/60 
+                               hover:shadow-glow disabled:opacity-30 disabled:cursor-not-allowed active:scale-95"
+                    >
+                      +
+                    </button>
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setCustomiseTeams(!customiseTeams)}
+                  className="text-sm text-gray-400 hover:text-glow"
+                >
+                  {customiseTeams ? '▾ Hide team names & players' : '▸ Name teams & add players'}
+                </button>
+                {customiseTeams && totalTeams !== '' && (
+                  <div className="space-y-3 max-h-[28rem] overflow-y-auto pr-1">
+                    {teamsForCount(Math.min(totalTeams, MAX_TEAMS)).map((team) => (
+                      <TeamEditor key={team.id} team={team} onChange={updateSetupTeam} />
+                    ))}
+                  </div>
+                )}
+                <button onClick={() => startNewGame()} className="glow-button w-full">
+                  Start Game
+                </button>
+              </div>
+            )}
+            <div className="mt-6 pt-4 border-t border-glow/10">
+              <SessionFileControls code={code} state={null} onImport={importState} onError={setError} />
+            </div>
+          </div>
+        )}
+
+        {/* Game Interface */}
+        {gameState && (
+          <div className="space-y-8">
+            {/* Pitches */}
+            <div className={gameState.pitches.length > 1 ? 'grid grid-cols-1 lg:grid-cols-2 gap-6' : ''}>
+              {gameState.pitches.map((_, pitch) => (
+                <PitchPanel
+                  key={pitch}
+                  state={gameState}
+                  pitch={pitch}
+                  organiser={organiser}
+                  disabled={commandPending}
+                  ratings={ratings}
+                  onCommand={runCommand}
+                />
+              ))}
+            </div>
+
+            {/* Game Info Grid */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {gameState.format !== 'rotation' ? (
+                <div className="glow-card">
+                  <h3 className="text-xl font-bold mb-4 text-glow">Fixtures</h3>
+                  <FixtureList state={gameState} />
+                </div>
+              ) : (
+                <div className="glow-card">
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-xl font-bold text-glow">Waiting Queue</h3>
+                    {organiser && !editingQueue && gameState.waiting_queue.length > 0 && (
+                      <button onClick={() => setEditingQueue(true)} className="text-sm text-gray-400 hover:text-glow">
+                        Edit order
+                      </button>
+                    )}
+                  </div>
+                  {organiser && editingQueue ? (
+                    <QueueEditor
+                      state={gameState}
+                      disabled={commandPending}
+                      onMove={(team, position, reason) =>
+                        runCommand({ type: 'move_team', team, position, reason, now: Date.now() })
+                      }
+                      onSwap={(pitch, out, incoming, reason) =>
+                        runCommand({ type: 'swap_match_team', pitch, out, in: incoming, reason, now: Date.now() })
+                      }
+                      onClose={() => setEditingQueue(false)}
+                    />
+                  ) : gameState.waiting_queue.length > 0 ? (
+                    <div className="space-y-2">
+                      <p className="text-sm text-gray-500 mb-2">Next teams to play (in order):</p>
+                      <div className="flex flex-wrap gap-2">
+                        {gameState.waiting_queue.map((team, index) => {
+                          const benched = gameState.benched.includes(team)
+                          const next = nextPairing(gameState, Math.max(freePitch(gameState), 0))?.includes(team) ?? false
+                          return (
+                            <TeamBadge
+                              key={`${team}-${index}`}
+                              team={findTeam(gameState, team)}
+                              className={`text-sm ${next ? 'ring-2 ring-glow' : ''} ${benched ? 'opacity-40' : ''}`}
+                            >
+                              {next && <span className="ml-1 text-xs">▶</span>}
+                              {benched && <span className="ml-1 text-xs">bench</span>}
+                            </TeamBadge>
+                          )
+                        })}
+                      </div>
+                      {gameState.pitches.map(({ streak }, pitch) => streak && (
+                        <p key={pitch} className="text-xs text-gray-500 pt-2">
+                          {findTeam(gameState, streak.team).name} stays on{onPitch(gameState, pitch)}
+                          {streak.wins > 0 && ` — ${streak.wins} win${streak.wins === 1 ? '' : 's'} in a row`}
+                          {gameState.rules.id === 'winner_capped' && ` (max ${gameState.rules.max_wins ?? DEFAULT_MAX_WINS})`}
+                        </p>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-gray-500">No teams in queue</p>
+                  )}
+                </div>
+              )}
+
+              <div className="glow-card">
+                <h3 className="text-xl font-bold mb-4 text-glow">Session Info</h3>
+                <div className="space-y-2 text-gray-400">
+                  {gameState.format === 'rotation' ? (
+                    <p>Rules: <span className="text-glow">{describeRules(gameState.rules)}</span></p>
+                  ) : (
+                    <p>Format: <span className="text-glow">{FORMATS[gameState.format].name}</span></p>
+                  )}
+                  {(gameState.settings.match_minutes !== null || gameState.settings.goal_limit !== null) && (
+                    <p>
+                      Full time:{' '}
+                      <span className="text-glow">
+                        {[
+                          gameState.settings.match_minutes !== null && `${gameState.settings.match_minutes} min`,
+                          gameState.settings.goal_limit !== null && `first to ${gameState.settings.goal_limit}`
+                        ].filter(Boolean).join(' or ')}
+                      </span>
+                    </p>
+                  )}
+                  <p>Total Teams: <span className="text-glow">{gameState.total_teams}</span></p>
+                  {gameState.pitches.length > 1 && (
+                    <p>Pitches: <span className="text-glow">{gameState.pitches.length}</span></p>
+                  )}
+                  <p>Matches Played: <span className="text-glow">{gameState.match_history.length}</span></p>
+                  {gameState.format === 'rotation' ? (
+                    <p>Teams in Queue: <span className="text-glow">{gameState.waiting_queue.length}</span></p>
+                  ) : (
+                    <p>
+                      Fixtures Played:{' '}
+                      <span className="text-glow">
+                        {gameState.fixtures.filter((f) => f.match_number !== undefined).length} of{' '}
+                        {gameState.fixtures.filter((f) => !isBye(f)).length}
+                      </span>
+                    </p>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {/* Standings */}
+            <div className="glow-card">
+              <h3 className="text-xl font-bold mb-4 text-glow">
+                {gameState.format === 'round_robin' && tournamentComplete(gameState) ? 'Final Table' : 'Standings'}
+              </h3>
+              {gameState.match_history.length > 0 ? (
+                <StandingsTable teams={gameState.teams} history={gameState.match_history} />
+              ) : (
+                <p className="text-gray-500">The table fills in as results are recorded</p>
+              )}
+            </div>
+
+            {/* Top Scorers */}
+            <div className="glow-card">
+              <h3 className="text-xl font-bold mb-4 text-glow">Top Scorers</h3>
+              <TopScorers teams={gameState.teams} history={gameState.match_history} />
+            </div>
+
+            {/* Teams */}
+            <div className="glow-card">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-xl font-bold text-glow">Teams</h3>
+                {organiser && !newTeam && gameState.format === 'rotation' && gameState.teams.length < MAX_TEAMS && (
+                  <button onClick={startAddingTeam} className="text-sm text-gray-400 hover:text-glow">
+                    + Add team
+                  </button>
+                )}
+              </div>
+              {newTeam && (
+                <div className="space-y-2 mb-6 max-w-md">
+                  <TeamEditor team={newTeam} onChange={setNewTeam} />
+                  <label className="block text-sm text-gray-400">
+                    Joins the queue
+                    <select
+                      value={newTeamPosition}
+                      onChange={(e) => setNewTeamPosition(parseInt(e.target.value))}
+                      className="input-field w-full mt-1"
+                    >
+                      <option value={0}>At the front</option>
+                      {gameState.waiting_queue.map((team, index) => (
+                        <option key={team} value={index + 1}>
+                          After {findTeam(gameState, team).name}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <div className="flex gap-2">
+                    <button onClick={saveNewTeam} disabled={commandPending} className="glow-button flex-1 disabled:opacity-50">
+                      Add Team
+                    </button>
+                    <button onClick={() => setNewTeam(null)} className="text-gray-400 hover:text-white px-4">
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                {gameState.teams.map((team) =>
+                  editingTeam?.id === team.id ? (
+                    <div key={team.id} className="space-y-2 sm:col-span-2 lg:col-span-1">
+                      <TeamEditor team={editingTeam} onChange={setEditingTeam} />
+                      <div className="flex gap-2">
+                        <button onClick={saveTeamEdit} disabled={commandPending} className="glow-button flex-1 disabled:opacity-50">
+                          Save
+                        </button>
+                        <button onClick={() => setEditingTeam(null)} className="text-gray-400 hover:text-white px-4">
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div
+                      key={team.id}
+                      className={`flex items-start justify-between gap-2 ${teamStatus(gameState, team.id) === 'withdrawn' ? 'opacity-40' : ''}`}
+                    >
+                      <TeamBadge team={team} className="flex-1" showRoster />
+                      {organiser && (
+                        <div className="flex flex-col items-end gap-1 pt-2 text-xs text-gray-500">
+                          <button onClick={() => setEditingTeam(team)} className="hover:text-glow">
+                            Edit
+                          </button>
+                          {gameState.format === 'rotation' && teamStatus(gameState, team.id) === 'waiting' && (
+                            <button
+                              onClick={() => runCommand({ type: 'bench_team', team: team.id, now: Date.now() })}
+                              disabled={commandPending}
+                              className="hover:text-glow"
+                            >
+                              Bench
+                            </button>
+                          )}
+                          {teamStatus(gameState, team.id) === 'benched' && (
+                            <button
+                              onClick={() => runCommand({ type: 'return_team', team: team.id, now: Date.now() })}
+                              disabled={commandPending}
+                              className="text-yellow-400 hover:text-glow"
+                            >
+                              Return
+                            </button>
+                          )}
+                          {teamStatus(gameState, team.id) === 'withdrawn' ? (
+                            <span>{gameState.format === 'knockout' ? 'Knocked out' : 'Left'}</span>
+                          ) : gameState.format === 'rotation' && (
+                            <button onClick={() => withdrawTeam(team)} disabled={commandPending} className="hover:text-red-400">
+                              Withdraw
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  )
+                )}
+              </div>
+            </div>
+
+            {/* Match History */}
+            <div className="glow-card">
+              <h3 className="text-xl font-bold mb-4 text-glow">Match History</h3>
+              {gameState.match_history.length + gameState.undone_history.length + gameState.team_events.length > 0 ? (
+                <div className="space-y-2 max-h-96 overflow-y-auto">
+                  {/* Team events sit just after the match they followed; newest first */}
+                  {[
+                    ...gameState.match_history.map((match) => ({ match, undone: false, order: match.match_number })),
+                    ...gameState.undone_history.map((match) => ({ match, undone: true, order: match.match_number })),
+                    ...gameState.team_events.map((event) => ({ event, order: event.after_match + 0.5 }))
+                  ]
+                    .sort((a, b) =>
+                      b.order - a.order ||
+                      ('event' in a && 'event' in b ? b.event.time - a.event.time : 0) ||
+                      ('undone' in a && 'undone' in b ? Number(a.undone) - Number(b.undone) : 0)
+                    )
+                    .map((entry, index) =>
+                      'event' in entry ? (
+                        <TeamEventRow key={`event-${entry.event.time}-${entry.event.team}`} event={entry.event} teams={gameState.teams} />
+                      ) : (
+                        <MatchRow
+                          key={`${entry.match.match_number}-${entry.undone ? `undone-${index}` : 'played'}`}
+                          match={entry.match}
+                          undone={entry.undone}
+                          teams={gameState.teams}
+                        />
+                      )
+                    )}
+                </div>
+              ) : (
+                <p className="text-gray-500">No matches played yet</p>
+              )}
+            </div>
+
+            {/* Actions */}
+            {organiser && (
+              <div className="flex flex-wrap gap-4 justify-center">
+                <button
+                  onClick={() => stepHistory('undo')}
+                  disabled={!canUndo(gameState) || commandPending}
+                  title={canUndo(gameState) ? `Undo: ${gameState.undo_stack[gameState.undo_stack.length - 1].label}` : undefined}
+                  className="glow-button disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  ↶ Undo
+                </button>
+                <button
+                  onClick={() => stepHistory('redo')}
+                  disabled={!canRedo(gameState) || commandPending}
+                  title={canRedo(gameState) ? `Redo: ${gameState.redo_stack[gameState.redo_stack.length - 1].label}` : undefined}
+                  className="glow-button disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  ↷ Redo
+                </button>
+                <button
+                  onClick={endSession}
+                  className="bg-accent border border-red-500/30 text-red-400 font-medium px-6 py-3 rounded-lg 
+                           transition-all duration-300 hover:shadow-glow hover:border-red-500/60"
+                >
+                  End Session
+                </button>
+              </div>
+            )}
+            <SessionFileControls
+              code={code}
+              sessionName={session?.name}
+              state={gameState}
+              onImport={organiser ? importState : undefined}
+              onError={setError}
+            />
+          </div>
+        )}
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,62 @@
+'use client'
+
+import { useState } from 'react'
+import { INVITE_LIFETIME_DAYS, inviteLink } from '../lib/session'
+import { sessionStore } from '../lib/storage'
+
+interface InviteOrganiserProps {
+  code: string
+  onError: (message: string) => void
+}
+
+// Owners hand out links that make whoever opens one first (signed in) a
+// co-organiser
+export default function InviteOrganiser({ code, onError }: InviteOrganiserProps) {
+  const [link, setLink] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+  const [creating, setCreating] = useState(false)
+
+  const createInvite = async () => {
+    setCreating(true)
+    try {
+      const token = await sessionStore.createInvite(code)
+      setLink(inviteLink(window.location.origin, code, token))
+      setCopied(false)
+    } catch (e) {
+      console.error('Failed to create invite:', e)
+      onError((e as Error).message)
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const copyLink = async () => {
+    if (!link) return
+    // The clipboard needs permission and a secure origin
+    try {
+      await navigator.clipboard.writeText(link)
+      setCopied(true)
+    } catch (e) {
+      console.error('Failed to copy invite link:', e)
+      onError('Could not copy the invite link — select it and copy it by hand')
+    }
+  }
+
+  if (!link) {
+    return (
+      <button onClick={createInvite} disabled={creating} className="text-xs text-gray-500 hover:text-glow">
+        {creating ? 'Creating invite...' : 'Invite a co-organiser'}
+      </button>
+    )
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <input readOnly value={link} onFocus={(e) => e.target.select()} className="input-field text-xs py-1 w-64" />
+      <button onClick={copyLink} className="text-gray-400 hover:text-glow">
+        {copied ? 'Copied' : 'Copy'}
+      </button>
+      <span className="text-gray-500">Works once, for {INVITE_LIFETIME_DAYS} days</span>
+    </div>
+  )
+}
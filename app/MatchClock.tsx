@@ -0,0 +1,76 @@
+import { formatTime } from '../lib/time'
+
+interface MatchClockProps {
+  elapsedSeconds: number
+  paused: boolean
+  // With a match length the clock counts down, then shows overtime
+  lengthSeconds: number | null
+  // True for a few seconds after full time
+  flashing: boolean
+  // Left out for spectators, who can't stop the clock
+  onTogglePause?: () => void
+  // Scoreboard size, for reading from across the pitch
+  large?: boolean
+}
+
+export default function MatchClock({ elapsedSeconds, paused, lengthSeconds, flashing, onTogglePause, large = false }: MatchClockProps) {
+  const overtime = lengthSeconds !== null && elapsedSeconds >= lengthSeconds
+  const display = lengthSeconds === null
+    ? formatTime(elapsedSeconds)
+    : overtime
+      ? `+${formatTime(elapsedSeconds - lengthSeconds)}`
+      : formatTime(lengthSeconds - elapsedSeconds)
+
+  return (
+    <div className="flex items-center gap-2">
+      <div className={`flex items-center gap-2 border rounded-xl px-4 py-2 transition-all duration-300
+        ${flashing
+          ? 'bg-red-500/30 border-red-500 animate-pulse'
+          : paused
+            ? 'bg-yellow-500/10 border-yellow-500/40'
+            : overtime
+              ? 'bg-orange-500/10 border-orange-500/40'
+              : 'bg-black/40 border-glow/30'
+        }`}
+      >
+        <span className="relative flex h-3 w-3">
+          <span className={`absolute animate-ping inline-flex h-full w-full rounded-full opacity-75
+            ${paused ? 'bg-yellow-400' : overtime ? 'bg-orange-400' : 'bg-green-400'}`}
+          />
+          <span className={`relative inline-flex rounded-full h-3 w-3
+            ${paused ? 'bg-yellow-500' : overtime ? 'bg-orange-500' : 'bg-green-500'}`}
+          />
+        </span>
+        <span className={`${large ? 'text-6xl' : 'text-2xl'} font-mono font-bold tracking-widest
+          ${paused ? 'text-yellow-400' : overtime ? 'text-orange-400' : 'text-glow'}`}
+          title={lengthSeconds !== null ? (overtime ? 'Overtime' : 'Time remaining') : 'Time played'}
+        >
+          {display}
+        </span>
+      </div>
+
+      {onTogglePause && (
+        <button
+          onClick={onTogglePause}
+          title={paused ? 'Resume timer' : 'Pause timer'}
+          className={`w-10 h-10 rounded-xl border flex items-center justify-center
+                   transition-all duration-300 active:scale-95
+            ${paused
+              ? 'bg-yellow-500/20 border-yellow-500/60 text-yellow-400 hover:bg-yellow-500/30'
+              : 'bg-black/40 border-glow/30 text-glow hover:bg-glow/10 hover:border-glow/60'
+            }`}
+        >
+          {paused ? (
+            <svg viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4">
+              <path d="M8 5v14l11-7z" />
+            </svg>
+          ) : (
+            <svg viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4">
+              <path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z" />
+            </svg>
+          )}
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,60 @@
+import { Match, Team, findTeam, tieWinner } from '../lib/rotation'
+import { formatTime } from '../lib/time'
+
+interface MatchRowProps {
+  match: Match
+  teams: Team[]
+  // Taken back with undo — shown struck out
+  undone?: boolean
+}
+
+export default function MatchRow({ match, teams, undone = false }: MatchRowProps) {
+  const scorers = (match.goals ?? []).filter((g) => g.scorer)
+  // A shootout winner is highlighted even though the match itself was drawn
+  const winner = tieWinner(match)
+  return (
+    <div
+      className={`bg-accent p-4 rounded-lg border border-glow/10 ${undone ? 'opacity-50 line-through' : ''}`}
+    >
+      <div className="flex items-center justify-between">
+        <span className="text-gray-400">
+          Match {match.match_number}
+          {match.pitch !== undefined && <span className="text-xs text-gray-500"> · Pitch {match.pitch + 1}</span>}
+        </span>
+        <div className="flex items-center gap-4">
+          <span className={winner === match.team1 ? 'text-glow font-bold' : 'text-gray-400'}>
+            {findTeam({ teams }, match.team1).name}
+          </span>
+          {match.score ? (
+            <span className="font-mono font-bold text-white">
+              {match.score.team1} – {match.score.team2}
+            </span>
+          ) : (
+            <span className="text-gray-500">vs</span>
+          )}
+          <span className={winner === match.team2 ? 'text-glow font-bold' : 'text-gray-400'}>
+            {findTeam({ teams }, match.team2).name}
+          </span>
+        </div>
+        <span className="text-sm text-gray-500">
+          {undone ? 'Undone'
+            : match.penalties ? `Pens ${match.penalties.team1}–${match.penalties.team2}`
+            : match.result === 'draw' ? 'Draw' : match.result === 'team1_win' ? 'T1 Win' : 'T2 Win'}
+        </span>
+        {match.duration && (
+          <span className="text-xs font-mono bg-black/40 border border-glow/20 text-glow px-2 py-1 rounded-lg">
+            ⏱ {match.duration}
+          </span>
+        )}
+      </div>
+      {match.note && (
+        <p className="text-xs text-yellow-400/80 mt-2 text-center">{match.note}</p>
+      )}
+      {scorers.length > 0 && (
+        <p className="text-xs text-gray-500 mt-2 text-center">
+          {scorers.map((g) => `${g.scorer} ${formatTime(g.time)}`).join(' · ')}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,63 @@
+'use client'
+
+import { useState } from 'react'
+import { CurrentMatch, GameState, Score, findTeam } from '../lib/rotation'
+
+interface PenaltyShootoutProps {
+  state: GameState
+  match: CurrentMatch
+  disabled: boolean
+  onConfirm: (penalties: Score) => void
+  onCancel: () => void
+}
+
+// A knockout tie that's level at full time is settled by a shootout
+export default function PenaltyShootout({ state, match, disabled, onConfirm, onCancel }: PenaltyShootoutProps) {
+  const [penalties, setPenalties] = useState<Score>({ team1: 0, team2: 0 })
+  const team1 = findTeam(state, match.team1)
+  const team2 = findTeam(state, match.team2)
+  const level = penalties.team1 === penalties.team2
+
+  const scoreInput = (side: keyof Score) => (
+    <input
+      type="number"
+      min={0}
+      value={penalties[side]}
+      onChange={(e) => setPenalties({ ...penalties, [side]: Math.max(0, parseInt(e.target.value) || 0) })}
+      onFocus={(e) => e.target.select()}
+      className="input-field w-20 text-center text-2xl font-bold"
+    />
+  )
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-6">
+      <div className="glow-card max-w-md w-full text-center space-y-6">
+        <div>
+          <h2 className="text-3xl font-bold text-glow mb-2">Penalties</h2>
+          <p className="text-gray-400">It&apos;s level — a knockout tie needs a winner.</p>
+        </div>
+        <div className="flex items-center justify-center gap-4">
+          <label className="flex flex-col items-center gap-2">
+            <span className="text-sm">{team1.name}</span>
+            {scoreInput('team1')}
+          </label>
+          <span className="text-gray-500 pt-6">–</span>
+          <label className="flex flex-col items-center gap-2">
+            <span className="text-sm">{team2.name}</span>
+            {scoreInput('team2')}
+          </label>
+        </div>
+        <button
+          onClick={() => onConfirm(penalties)}
+          disabled={disabled || level}
+          className="glow-button w-full disabled:opacity-50"
+        >
+          {level ? 'Enter the shootout score' : `${penalties.team1 > penalties.team2 ? team1.name : team2.name} go through`}
+        </button>
+        <button onClick={onCancel} className="text-sm text-gray-400 hover:text-white">
+          Back to the match
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,209 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import CurrentMatchPanel from './CurrentMatchPanel'
+import FairnessIndicator from './FairnessIndicator'
+import FullTimePrompt from './FullTimePrompt'
+import MatchClock from './MatchClock'
+import PenaltyShootout from './PenaltyShootout'
+import { RatingTable } from '../lib/ratings'
+import { playWhistle, unlockAudio } from '../lib/whistle'
+import {
+  GameState,
+  MatchResult,
+  RotationCommand,
+  Score,
+  activeMatches,
+  clockElapsedSeconds,
+  currentScore,
+  findTeam,
+  fullTimeReason,
+  isClockPaused,
+  knockoutChampion,
+  matchLengthSeconds,
+  nextPairing,
+  pitchName,
+  resultFromScore,
+  tournamentComplete
+} from '../lib/rotation'
+
+interface PitchPanelProps {
+  state: GameState
+  // Index into state.pitches
+  pitch: number
+  organiser: boolean
+  disabled: boolean
+  ratings: RatingTable | null
+  onCommand: (command: RotationCommand) => Promise<boolean>
+}
+
+// One pitch: its match, clock and full-time alerts, or who's up next when it's free
+export default function PitchPanel({ state, pitch, organiser, disabled, ratings, onCommand }: PitchPanelProps) {
+  const match = state.pitches[pitch].match
+  // The match clock lives in the session; this just ticks to redraw it
+  const [now, setNow] = useState(() => Date.now())
+  const [fullTimeFlash, setFullTimeFlash] = useState(false)
+  const [showFullTimePrompt, setShowFullTimePrompt] = useState(false)
+  // A level knockout tie waiting for its shootout score
+  const [showPenalties, setShowPenalties] = useState(false)
+  const fullTimeAlertedRef = useRef(false)
+  // Whether this page saw the pitch before full time, so the whistle only
+  // blows when full time actually arrives
+  const watchedBeforeFullTimeRef = useRef(false)
+  const fullTimeFlashRef = useRef<NodeJS.Timeout | null>(null)
+  const autoPromptRef = useRef(state.settings.auto_prompt)
+  autoPromptRef.current = state.settings.auto_prompt
+
+  const clock = match?.clock ?? null
+  const elapsedSeconds = clock ? clockElapsedSeconds(clock, now) : 0
+  const timerPaused = clock ? isClockPaused(clock) : false
+
+  useEffect(() => {
+    if (!clock || timerPaused) return
+    setNow(Date.now())
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [clock, timerPaused])
+
+  const togglePause = () => {
+    onCommand({ type: timerPaused ? 'resume_clock' : 'pause_clock', pitch, now: Date.now() })
+  }
+
+  // Full time: blow the whistle, flash the clock and optionally ask for the
+  // result — once per match, however long it then runs over
+  const fullTime = match ? fullTimeReason(state.settings, match, elapsedSeconds) : null
+
+  useEffect(() => {
+    if (!fullTime) {
+      fullTimeAlertedRef.current = false
+      watchedBeforeFullTimeRef.current = true
+      setShowFullTimePrompt(false)
+      return
+    }
+    if (fullTimeAlertedRef.current) return
+    fullTimeAlertedRef.current = true
+    if (autoPromptRef.current) setShowFullTimePrompt(true)
+    // Opening or refreshing the page part-way through overtime stays quiet
+    if (!watchedBeforeFullTimeRef.current) return
+    playWhistle()
+    setFullTimeFlash(true)
+    if (fullTimeFlashRef.current) clearTimeout(fullTimeFlashRef.current)
+    fullTimeFlashRef.current = setTimeout(() => setFullTimeFlash(false), 5000)
+  }, [fullTime])
+
+  useEffect(() => () => {
+    if (fullTimeFlashRef.current) clearTimeout(fullTimeFlashRef.current)
+  }, [])
+
+  // Another device may have settled the tie first
+  const kickOff = clock?.started_at
+  useEffect(() => {
+    setShowPenalties(false)
+  }, [kickOff])
+
+  const getNextMatch = () => {
+    unlockAudio()
+    onCommand({ type: 'start_next_match', pitch, now: Date.now() })
+  }
+
+  const recordResult = (result?: MatchResult) => {
+    if (!match) return
+    if (state.format === 'knockout' && (result ?? resultFromScore(currentScore(match))) === 'draw') {
+      setShowFullTimePrompt(false)
+      setShowPenalties(true)
+      return
+    }
+    onCommand({ type: 'record_result', pitch, result, now: Date.now() })
+  }
+
+  const recordShootout = async (penalties: Score) => {
+    if (await onCommand({ type: 'record_result', pitch, result: 'draw', penalties, now: Date.now() })) setShowPenalties(false)
+  }
+
+  const pairing = nextPairing(state, pitch)
+  const champion = state.format === 'knockout' ? knockoutChampion(state.fixtures) : null
+
+  return (
+    <>
+      {showFullTimePrompt && organiser && fullTime && match && (
+        <FullTimePrompt
+          state={state}
+          match={match}
+          reason={fullTime}
+          disabled={disabled}
+          onResult={recordResult}
+          onDismiss={() => setShowFullTimePrompt(false)}
+        />
+      )}
+
+      {showPenalties && organiser && match && (
+        <PenaltyShootout
+          state={state}
+          match={match}
+          disabled={disabled}
+          onConfirm={recordShootout}
+          onCancel={() => setShowPenalties(false)}
+        />
+      )}
+
+      <div className="glow-card">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-glow">{pitchName(state, pitch)}</h2>
+
+          {match && (
+            <MatchClock
+              elapsedSeconds={elapsedSeconds}
+              paused={timerPaused}
+              lengthSeconds={matchLengthSeconds(state.settings)}
+              flashing={fullTimeFlash}
+              onTogglePause={organiser ? togglePause : undefined}
+            />
+          )}
+        </div>
+
+        {match ? (
+          <CurrentMatchPanel
+            state={state}
+            match={match}
+            disabled={disabled || !organiser}
+            onGoal={(team, scorer) => onCommand({ type: 'record_goal', pitch, team, scorer, now: Date.now() })}
+            onRemoveGoal={(index) => onCommand({ type: 'remove_goal', pitch, index })}
+            onResult={recordResult}
+          />
+        ) : (
+          <div className="text-center">
+            <p className="text-gray-400 mb-4">
+              {tournamentComplete(state)
+                ? champion !== null
+                  ? `🏆 ${findTeam(state, champion).name} win the tournament`
+                  : 'Every fixture has been played — see the final table below'
+                : pairing
+                  ? 'No current match — click below to start next match'
+                  : activeMatches(state).length > 0
+                    ? 'Waiting for teams to come off the other pitches'
+                    : 'Not enough teams to start a match'}
+            </p>
+            {ratings && pairing && (
+              <div className="mb-4">
+                <FairnessIndicator
+                  ratings={ratings}
+                  team1={findTeam(state, pairing[0])}
+                  team2={findTeam(state, pairing[1])}
+                />
+              </div>
+            )}
+            {organiser && !tournamentComplete(state) && (
+              <button
+                onClick={getNextMatch}
+                disabled={!pairing || disabled}
+                className="glow-button disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Get Next Match
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </>
+  )
+}
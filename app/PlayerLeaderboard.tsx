@@ -0,0 +1,79 @@
+'use client'
+
+import { useState } from 'react'
+import { PlayerRecord, PlayerSortKey, sortPlayerRecords } from '../lib/playerStats'
+
+interface PlayerLeaderboardProps {
+  records: PlayerRecord[]
+}
+
+const COLUMNS: { key: PlayerSortKey; label: string; title: string }[] = [
+  { key: 'attended', label: 'Att', title: 'Sessions attended' },
+  { key: 'played', label: 'P', title: 'Played' },
+  { key: 'won', label: 'W', title: 'Won' },
+  { key: 'drawn', label: 'D', title: 'Drawn' },
+  { key: 'lost', label: 'L', title: 'Lost' },
+  { key: 'goals', label: 'Goals', title: 'Goals scored' },
+  { key: 'win_pct', label: 'Win %', title: 'Win percentage' }
+]
+
+export default function PlayerLeaderboard({ records }: PlayerLeaderboardProps) {
+  const [sortKey, setSortKey] = useState<PlayerSortKey>('won')
+  const [direction, setDirection] = useState<'asc' | 'desc'>('desc')
+
+  const changeSort = (key: PlayerSortKey) => {
+    if (key === sortKey) {
+      setDirection(direction === 'desc' ? 'asc' : 'desc')
+    } else {
+      setSortKey(key)
+      setDirection('desc')
+    }
+  }
+
+  if (records.length === 0) {
+    return <p className="text-gray-500">No player results in this period</p>
+  }
+
+  const sorted = sortPlayerRecords(records, sortKey, direction)
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-gray-500 border-b border-glow/10">
+            <th className="text-left py-2 pr-2">#</th>
+            <th className="text-left py-2 pr-4">Player</th>
+            {COLUMNS.map((column) => (
+              <th key={column.key} className="py-2 px-2 text-right">
+                <button
+                  onClick={() => changeSort(column.key)}
+                  title={column.title}
+                  className={`hover:text-glow ${sortKey === column.key ? 'text-glow' : ''}`}
+                >
+                  {column.label}
+                  {sortKey === column.key && (direction === 'desc' ? ' ▾' : ' ▴')}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map((row, index) => (
+            <tr key={row.player.toLowerCase()} className="border-b border-glow/5 text-gray-300">
+              <td className="py-2 pr-2 text-gray-500">{index + 1}</td>
+              <td className="py-2 pr-4">{row.player}</td>
+              {COLUMNS.map((column) => (
+                <td
+                  key={column.key}
+                  className={`py-2 px-2 text-right font-mono ${column.key === sortKey ? 'text-glow font-bold' : ''}`}
+                >
+                  {row[column.key]}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
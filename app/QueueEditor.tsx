@@ -0,0 +1,150 @@
+'use client'
+
+import { useState, useRef } from 'react'
+import { GameState, activeMatches, findTeam, pitchName } from '../lib/rotation'
+
+interface QueueEditorProps {
+  state: GameState
+  disabled: boolean
+  onMove: (team: number, position: number, reason: string) => void
+  onSwap: (pitch: number, out: number, incoming: number, reason: string) => void
+  onClose: () => void
+}
+
+interface Drag {
+  team: number
+  // Place among the other teams the dragged one would land at
+  target: number
+}
+
+// Organiser overrides for the queue. Dragging uses pointer events rather than
+// HTML5 drag-and-drop, which doesn't fire for touch.
+export default function QueueEditor({ state, disabled, onMove, onSwap, onClose }: QueueEditorProps) {
+  const [reason, setReason] = useState('')
+  const [drag, setDrag] = useState<Drag | null>(null)
+  const rowRefs = useRef(new Map<number, HTMLLIElement>())
+
+  const queue = state.waiting_queue
+  const locked = disabled || !reason.trim()
+  const order = drag
+    ? (() => {
+        const rest = queue.filter((t) => t !== drag.team)
+        return [...rest.slice(0, drag.target), drag.team, ...rest.slice(drag.target)]
+      })()
+    : queue
+
+  const targetFor = (team: number, clientY: number) =>
+    queue.filter((t) => {
+      const row = rowRefs.current.get(t)
+      if (t === team || !row) return false
+      const rect = row.getBoundingClientRect()
+      return rect.top + rect.height / 2 < clientY
+    }).length
+
+  const startDrag = (team: number, e: React.PointerEvent<HTMLButtonElement>) => {
+    if (locked) return
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setDrag({ team, target: queue.indexOf(team) })
+  }
+
+  const moveDrag = (e: React.PointerEvent<HTMLButtonElement>) => {
+    if (!drag) return
+    setDrag({ ...drag, target: targetFor(drag.team, e.clientY) })
+  }
+
+  const endDrag = () => {
+    if (!drag) return
+    if (drag.target !== queue.indexOf(drag.team)) onMove(drag.team, drag.target, reason)
+    setDrag(null)
+  }
+
+  return (
+    <div className="space-y-4">
+      <label className="block text-sm text-gray-400">
+        Reason for the change
+        <input
+          type="text"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="e.g. Team 4 arrived late"
+          className="input-field w-full mt-1"
+        />
+      </label>
+      {!reason.trim() && <p className="text-xs text-gray-500">Give a reason to unlock the changes below</p>}
+
+      {activeMatches(state).map(({ pitch, match }) => (
+        <div key={pitch} className="space-y-2">
+          <p className="text-sm text-gray-500">{pitchName(state, pitch)}</p>
+          {[match.team1, match.team2].map((team) => (
+            <div key={team} className="flex items-center gap-2 text-sm">
+              <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: findTeam(state, team).color }} />
+              <span className="flex-1 text-gray-300">{findTeam(state, team).name}</span>
+              <select
+                value=""
+                disabled={locked || match.goals.length > 0}
+                onChange={(e) => onSwap(pitch, team, parseInt(e.target.value), reason)}
+                className="input-field text-sm py-1"
+              >
+                <option value="" disabled>Swap with…</option>
+                {queue
+                  .filter((t) => !state.benched.includes(t))
+                  .map((t) => (
+                    <option key={t} value={t}>{findTeam(state, t).name}</option>
+                  ))}
+              </select>
+            </div>
+          ))}
+          {match.goals.length > 0 && (
+            <p className="text-xs text-gray-500">Teams can&apos;t be swapped once goals have been scored</p>
+          )}
+        </div>
+      ))}
+
+      <div className="space-y-2">
+        <p className="text-sm text-gray-500">Queue — drag to reorder</p>
+        <ol className="space-y-1">
+          {order.map((team, index) => (
+            <li
+              key={team}
+              ref={(row) => {
+                if (row) rowRefs.current.set(team, row)
+                else rowRefs.current.delete(team)
+              }}
+              className={`flex items-center gap-2 bg-accent rounded-lg px-2 py-1 text-sm border
+                ${drag?.team === team ? 'border-glow shadow-glow-sm' : 'border-glow/10'}
+                ${state.benched.includes(team) ? 'opacity-50' : ''}`}
+            >
+              <button
+                onPointerDown={(e) => startDrag(team, e)}
+                onPointerMove={moveDrag}
+                onPointerUp={endDrag}
+                onPointerCancel={() => setDrag(null)}
+                disabled={locked}
+                aria-label={`Drag ${findTeam(state, team).name}`}
+                className="px-2 py-1 text-gray-500 cursor-grab touch-none disabled:cursor-not-allowed"
+              >
+                ⠿
+              </button>
+              <span className="w-5 text-gray-500">{index + 1}</span>
+              <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: findTeam(state, team).color }} />
+              <span className="flex-1 text-gray-300">{findTeam(state, team).name}</span>
+              {index < queue.length - 1 && (
+                <button
+                  onClick={() => onMove(team, queue.length - 1, reason)}
+                  disabled={locked}
+                  className="text-xs text-gray-500 hover:text-glow disabled:opacity-50"
+                >
+                  To back
+                </button>
+              )}
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      <button onClick={onClose} className="text-sm text-gray-400 hover:text-white">
+        Done
+      </button>
+    </div>
+  )
+}
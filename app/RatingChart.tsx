@@ -0,0 +1,57 @@
+import { formatArchiveDate } from '../lib/archive'
+import { DEFAULT_RATING, PlayerRating } from '../lib/ratings'
+
+interface RatingChartProps {
+  rating: PlayerRating
+}
+
+const WIDTH = 600
+const HEIGHT = 200
+const PADDING = 24
+
+const formatMatchTime = (at: number) =>
+  new Date(at).toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })
+
+// One point per rated match, placed by when it finished, against the rating
+// everyone starts from
+export default function RatingChart({ rating }: RatingChartProps) {
+  const points = rating.history
+  const values = [DEFAULT_RATING, ...points.map((point) => point.rating)]
+  const min = Math.min(...values) - 10
+  const max = Math.max(...values) + 10
+  const first = points[0]?.at ?? 0
+  const last = points[points.length - 1]?.at ?? 0
+  // A single night's matches, or matches all rated at one time, still spread out
+  const x = (at: number, i: number) => PADDING + (last > first
+    ? (at - first) / (last - first)
+    : i / Math.max(points.length - 1, 1)) * (WIDTH - PADDING * 2)
+  const y = (value: number) => HEIGHT - PADDING - ((value - min) / (max - min)) * (HEIGHT - PADDING * 2)
+  const line = points.map((point, i) => `${x(point.at, i)},${y(point.rating)}`).join(' ')
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`${rating.player}'s rating history`}>
+      <line
+        x1={PADDING}
+        x2={WIDTH - PADDING}
+        y1={y(DEFAULT_RATING)}
+        y2={y(DEFAULT_RATING)}
+        className="stroke-gray-700"
+        strokeDasharray="4 4"
+      />
+      <text x={PADDING} y={PADDING - 8} className="fill-gray-500 text-xs">{Math.round(max)}</text>
+      <text x={PADDING} y={HEIGHT - 6} className="fill-gray-500 text-xs">{Math.round(min)}</text>
+      {points.length > 0 && (
+        <>
+          <text x={PADDING + 40} y={HEIGHT - 6} className="fill-gray-500 text-xs">{formatArchiveDate(first)}</text>
+          <text x={WIDTH - PADDING} y={HEIGHT - 6} textAnchor="end" className="fill-gray-500 text-xs">{formatArchiveDate(last)}</text>
+        </>
+      )}
+      <polyline points={line} fill="none" className="stroke-glow" strokeWidth={2} />
+      {points.map((point, i) => (
+        <circle key={i} cx={x(point.at, i)} cy={y(point.rating)} r={3} className="fill-glow">
+          <title>{`${formatMatchTime(point.at)}: ${point.rating}`}</title>
+        </circle>
+      ))}
+    </svg>
+  )
+}
@@ -0,0 +1,78 @@
+'use client'
+
+import Link from 'next/link'
+import { GameState, InvalidGameStateError } from '../lib/rotation'
+import { downloadTextFile } from '../lib/sessionFile'
+
+interface RecoveryScreenProps {
+  code: string
+  error: InvalidGameStateError
+  // Where the bad state came from
+  source: 'cloud' | 'device'
+  // A usable copy cached on this device, if there is one
+  backup: GameState | null
+  // Spectators can see what's wrong but not fix it
+  canRepair: boolean
+  onRestoreBackup: () => void
+  onDiscard: () => void
+}
+
+// Shown instead of the game when the saved state can't be loaded
+export default function RecoveryScreen({
+  code,
+  error,
+  source,
+  backup,
+  canRepair,
+  onRestoreBackup,
+  onDiscard
+}: RecoveryScreenProps) {
+  const downloadDamaged = () =>
+    downloadTextFile(
+      `football-session-${code}-damaged.json`,
+      JSON.stringify(error.data ?? null, null, 2),
+      'application/json'
+    )
+
+  return (
+    <main className="min-h-screen flex items-center justify-center p-8">
+      <div className="glow-card max-w-xl w-full space-y-4">
+        <h1 className="text-2xl font-bold text-glow">This game couldn&apos;t be loaded</h1>
+        <p className="text-gray-400">
+          The game saved {source === 'cloud' ? 'for this session' : 'on this device'} is damaged or was
+          written by a different version of the app:
+        </p>
+        <ul className="list-disc list-inside text-sm text-red-400 space-y-1 max-h-48 overflow-y-auto">
+          {error.problems.map((problem) => (
+            <li key={problem}>{problem}</li>
+          ))}
+        </ul>
+
+        <div className="flex flex-col gap-2 pt-2">
+          <button onClick={downloadDamaged} className="text-sm text-gray-400 hover:text-glow text-left">
+            ⬇ Download the damaged data
+          </button>
+          {canRepair ? (
+            <>
+              {backup && (
+                <button onClick={onRestoreBackup} className="glow-button">
+                  Restore this device&apos;s copy ({backup.match_history.length} matches)
+                </button>
+              )}
+              <button
+                onClick={onDiscard}
+                className="bg-accent border border-red-500/30 text-red-400 font-medium px-6 py-3 rounded-lg
+                         transition-all duration-300 hover:shadow-glow hover:border-red-500/60"
+              >
+                Discard it and start a new game
+              </button>
+            </>
+          ) : (
+            <p className="text-sm text-gray-500">Ask one of the session&apos;s organisers to repair it.</p>
+          )}
+          <Link href="/" className="text-sm text-gray-500 hover:text-glow">← All sessions</Link>
+        </div>
+      </div>
+    </main>
+  )
+}
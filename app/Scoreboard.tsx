@@ -0,0 +1,269 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import BackgroundSlideshow from './BackgroundSlideshow'
+import MatchClock from './MatchClock'
+import TeamBadge from './TeamBadge'
+import { PLAYER_IMAGES } from './playerImages'
+import { getDeviceId } from '../lib/device'
+import { SessionSummary, sortByRecentActivity } from '../lib/session'
+import { sessionStore } from '../lib/storage'
+import {
+  GameState,
+  InvalidGameStateError,
+  activeMatches,
+  availableQueue,
+  clockElapsedSeconds,
+  currentScore,
+  describeFormat,
+  findTeam,
+  freePitch,
+  isClockPaused,
+  knockoutChampion,
+  matchLengthSeconds,
+  nextFixtureIndex,
+  nextPairing,
+  pitchName,
+  roundName,
+  tieWinner,
+  tournamentComplete
+} from '../lib/rotation'
+
+// How many finished matches scroll along the bottom
+const RECENT_RESULTS = 6
+// Without a code, how often to look for a session that has started since
+const FOLLOW_INTERVAL_MS = 30_000
+
+interface ScoreboardProps {
+  // null follows whichever session was most recently active
+  code: string | null
+}
+
+// Read-only big-screen view of a session: nothing to press, it just follows
+// the game as organisers run it from their phones
+export default function Scoreboard({ code }: ScoreboardProps) {
+  const [sessionCode, setSessionCode] = useState<string | null>(code)
+  const [session, setSession] = useState<SessionSummary | null>(null)
+  const [gameState, setGameState] = useState<GameState | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+  // Bumped to look for another session as soon as the followed one ends
+  const [followCheck, setFollowCheck] = useState(0)
+
+  // An unattended screen keeps showing the session it's on while that's still
+  // going, then moves to whichever started next
+  useEffect(() => {
+    if (code) {
+      setSessionCode(code)
+      return
+    }
+    let cancelled = false
+    const follow = async () => {
+      try {
+        const sessions = await sessionStore.listActiveSessions()
+        if (cancelled) return
+        setSessionCode((current) =>
+          sessions.some((s) => s.code === current) ? current : sortByRecentActivity(sessions)[0]?.code ?? null
+        )
+        if (sessions.length === 0) setLoading(false)
+        setError(null)
+      } catch (e) {
+        console.error('Failed to list sessions:', e)
+        if (!cancelled) {
+          setError('Could not load active sessions')
+          setLoading(false)
+        }
+      }
+    }
+    follow()
+    const timer = setInterval(follow, FOLLOW_INTERVAL_MS)
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [code, followCheck])
+
+  useEffect(() => {
+    if (!sessionCode) {
+      setSession(null)
+      setGameState(null)
+      return
+    }
+    const unsubscribe = sessionStore.subscribeToSession(
+      sessionCode,
+      getDeviceId(),
+      ({ session, state }) => {
+        setSession(session)
+        setGameState(state)
+        setError(session || !code ? null : `No session found with code ${sessionCode}`)
+        setLoading(false)
+        if (!code && !session?.active) setFollowCheck((n) => n + 1)
+      },
+      (e) => {
+        console.error('Failed to follow session:', e)
+        setError(e instanceof InvalidGameStateError
+          ? 'This session\'s saved game can\'t be read — open it on an organiser\'s device to recover it'
+          : 'Lost connection to the session')
+        setLoading(false)
+      }
+    )
+    return unsubscribe
+  }, [code, sessionCode])
+
+  // Only tick while a clock is actually running
+  const running = gameState ? activeMatches(gameState).some(({ match }) => match.clock && !isClockPaused(match.clock)) : false
+  useEffect(() => {
+    if (!running) return
+    setNow(Date.now())
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [running])
+
+  return (
+    <main className="min-h-screen p-8 relative">
+      <BackgroundSlideshow images={PLAYER_IMAGES} interval={8000} />
+
+      <div className="max-w-7xl mx-auto relative z-20">
+        <div className="text-center mb-10">
+          <h1 className="text-5xl font-bold mb-2 text-glow">{session?.name ?? 'Street Football'}</h1>
+          {sessionCode && (
+            <p className="text-gray-400 text-xl">
+              Join code <span className="font-mono tracking-widest text-white">{sessionCode}</span>
+              {gameState && <> · {describeFormat(gameState)}</>}
+            </p>
+          )}
+        </div>
+
+        {error ? (
+          <p className="text-center text-3xl text-gray-400">{error}</p>
+        ) : loading ? (
+          <p className="text-center text-3xl text-gray-400">Loading session...</p>
+        ) : !sessionCode ? (
+          <p className="text-center text-3xl text-gray-400">No session running — the next one to start will show here</p>
+        ) : !gameState ? (
+          <p className="text-center text-3xl text-gray-400">Waiting for the game to start</p>
+        ) : (
+          <div className="space-y-8">
+            <div className={`grid gap-8 ${gameState.pitches.length > 1 ? 'lg:grid-cols-2' : ''}`}>
+              {gameState.pitches.map((_, pitch) => (
+                <PitchScore key={pitch} state={gameState} pitch={pitch} now={now} />
+              ))}
+            </div>
+
+            <div className="grid gap-8 lg:grid-cols-2">
+              <NextUp state={gameState} />
+              <RecentResults state={gameState} />
+            </div>
+          </div>
+        )}
+      </div>
+    </main>
+  )
+}
+
+function PitchScore({ state, pitch, now }: { state: GameState; pitch: number; now: number }) {
+  const match = state.pitches[pitch].match
+  const champion = state.format === 'knockout' ? knockoutChampion(state.fixtures) : null
+
+  if (!match) {
+    return (
+      <div className="glow-card text-center">
+        {state.pitches.length > 1 && <h2 className="text-3xl font-bold text-glow mb-6">{pitchName(state, pitch)}</h2>}
+        <p className="text-4xl text-gray-400 py-8">
+          {champion !== null
+            ? `🏆 ${findTeam(state, champion).name} win the tournament`
+            : tournamentComplete(state) ? 'Tournament complete' : 'Waiting for kick-off'}
+        </p>
+      </div>
+    )
+  }
+
+  const score = currentScore(match)
+  return (
+    <div className="glow-card">
+      <div className="flex items-center justify-between mb-8">
+        <h2 className="text-3xl font-bold text-glow">{state.pitches.length > 1 ? pitchName(state, pitch) : 'Now Playing'}</h2>
+        {match.clock && (
+          <MatchClock
+            elapsedSeconds={clockElapsedSeconds(match.clock, now)}
+            paused={isClockPaused(match.clock)}
+            lengthSeconds={matchLengthSeconds(state.settings)}
+            flashing={false}
+            large
+          />
+        )}
+      </div>
+      <div className="flex items-center justify-center gap-10">
+        <TeamBadge team={findTeam(state, match.team1)} className="text-5xl" />
+        <div className="text-8xl font-mono font-bold text-white whitespace-nowrap">
+          {score.team1} <span className="text-gray-500">–</span> {score.team2}
+        </div>
+        <TeamBadge team={findTeam(state, match.team2)} className="text-5xl" />
+      </div>
+    </div>
+  )
+}
+
+// The pair who play next, highlighted at the front of the queue
+function NextUp({ state }: { state: GameState }) {
+  const pairing = nextPairing(state, Math.max(freePitch(state), 0))
+  const fixture = state.format === 'rotation' ? null : state.fixtures[nextFixtureIndex(state)]
+  const queue = state.format === 'rotation' ? availableQueue(state) : pairing ?? []
+
+  return (
+    <div className="glow-card">
+      <h2 className="text-3xl font-bold text-glow mb-6">
+        Next Up{fixture && <span className="text-gray-400 text-2xl font-normal"> · {roundName(state, fixture.round)}</span>}
+      </h2>
+      {queue.length === 0 ? (
+        <p className="text-2xl text-gray-400">{tournamentComplete(state) ? 'Every fixture has been played' : 'Nobody waiting'}</p>
+      ) : (
+        <div className="flex flex-wrap gap-4">
+          {queue.map((team) => (
+            <TeamBadge
+              key={team}
+              team={findTeam(state, team)}
+              className={`text-3xl ${pairing?.includes(team) ? 'shadow-glow' : 'opacity-60'}`}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function RecentResults({ state }: { state: GameState }) {
+  const recent = state.match_history.slice(-RECENT_RESULTS).reverse()
+
+  return (
+    <div className="glow-card">
+      <h2 className="text-3xl font-bold text-glow mb-6">Recent Results</h2>
+      {recent.length === 0 ? (
+        <p className="text-2xl text-gray-400">No matches finished yet</p>
+      ) : (
+        <div className="space-y-3">
+          {recent.map((match) => {
+            const winner = tieWinner(match)
+            return (
+              <div key={match.match_number} className="flex items-center justify-between gap-4 text-2xl">
+                <span className={winner === match.team1 ? 'text-glow font-bold' : 'text-gray-300'}>
+                  {findTeam(state, match.team1).name}
+                </span>
+                <span className="font-mono font-bold text-white whitespace-nowrap">
+                  {match.score ? `${match.score.team1} – ${match.score.team2}` : 'vs'}
+                  {match.penalties && (
+                    <span className="text-lg text-gray-400"> ({match.penalties.team1}–{match.penalties.team2} pens)</span>
+                  )}
+                </span>
+                <span className={`text-right ${winner === match.team2 ? 'text-glow font-bold' : 'text-gray-300'}`}>
+                  {findTeam(state, match.team2).name}
+                </span>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
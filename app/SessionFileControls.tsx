@@ -0,0 +1,71 @@
+'use client'
+
+import { useRef } from 'react'
+import { GameState } from '../lib/rotation'
+import { downloadTextFile, exportSessionJson, matchHistoryCsv, parseSessionJson } from '../lib/sessionFile'
+
+interface SessionFileControlsProps {
+  code: string
+  sessionName?: string
+  // null on the start screen, where only importing makes sense
+  state: GameState | null
+  // Left out for spectators, who can only export
+  onImport?: (state: GameState) => void
+  onError: (message: string) => void
+}
+
+export default function SessionFileControls({ code, sessionName, state, onImport, onError }: SessionFileControlsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const baseName = `football-session-${code}-${new Date().toISOString().slice(0, 10)}`
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      const imported = parseSessionJson(await file.text())
+      if (state && !window.confirm('Replace the current game with the one in this file?')) return
+      onImport?.(imported)
+    } catch (e) {
+      onError((e as Error).message)
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = ''
+    }
+  }
+
+  const linkClass = 'text-sm text-gray-400 hover:text-glow'
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-4">
+      {state && (
+        <>
+          <button
+            onClick={() => downloadTextFile(`${baseName}.json`, exportSessionJson(state, sessionName), 'application/json')}
+            className={linkClass}
+          >
+            ⬇ Export JSON
+          </button>
+          <button
+            onClick={() => downloadTextFile(`${baseName}.csv`, matchHistoryCsv(state), 'text/csv')}
+            disabled={state.match_history.length === 0}
+            className={`${linkClass} disabled:opacity-40`}
+          >
+            ⬇ Match history CSV
+          </button>
+        </>
+      )}
+      {onImport && (
+        <>
+          <button onClick={() => fileInputRef.current?.click()} className={linkClass}>
+            ⬆ Import session file
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="hidden"
+          />
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Image from 'next/image'
+import QRCode from 'qrcode'
+import { sessionPath } from '../lib/session'
+
+// Pixels; drawn at this size and scaled down by CSS so it stays sharp
+const QR_SIZE = 240
+
+interface SessionShareProps {
+  code: string
+}
+
+// Join code, copyable link and a QR code that opens the session on another phone
+export default function SessionShare({ code }: SessionShareProps) {
+  const [url, setUrl] = useState('')
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null)
+  const [showQr, setShowQr] = useState(false)
+  const [copied, setCopied] = useState(false)
+
+  useEffect(() => {
+    const sessionUrl = `${window.location.origin}${sessionPath(code)}`
+    setUrl(sessionUrl)
+    QRCode.toDataURL(sessionUrl, { margin: 1, width: QR_SIZE, color: { dark: '#000000', light: '#ffffff' } })
+      .then(setQrDataUrl)
+      .catch((e) => console.error('Failed to generate QR code:', e))
+  }, [code])
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(url)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (e) {
+      console.error('Failed to copy link:', e)
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-gray-500">Join code</span>
+        <span className="team-badge font-mono tracking-widest">{code}</span>
+        <button onClick={copyLink} className="text-xs text-gray-400 hover:text-glow">
+          {copied ? 'Copied!' : 'Copy link'}
+        </button>
+        <button onClick={() => setShowQr(!showQr)} className="text-xs text-gray-400 hover:text-glow">
+          {showQr ? 'Hide QR' : 'Show QR'}
+        </button>
+      </div>
+      {showQr && qrDataUrl && (
+        // A data URL, so there's nothing for the image optimiser to fetch
+        <Image
+          src={qrDataUrl}
+          alt={`QR code for session ${code}`}
+          width={QR_SIZE}
+          height={QR_SIZE}
+          unoptimized
+          className="w-48 h-48 rounded-lg"
+        />
+      )}
+    </div>
+  )
+}
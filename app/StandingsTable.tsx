@@ -0,0 +1,86 @@
+'use client'
+
+import { useState } from 'react'
+import { Match, Team, findTeam } from '../lib/rotation'
+import { StandingsSortKey, computeStandings, sortStandings } from '../lib/standings'
+
+interface StandingsTableProps {
+  teams: Team[]
+  history: Match[]
+}
+
+const COLUMNS: { key: StandingsSortKey; label: string; title: string }[] = [
+  { key: 'played', label: 'P', title: 'Played' },
+  { key: 'won', label: 'W', title: 'Won' },
+  { key: 'drawn', label: 'D', title: 'Drawn' },
+  { key: 'lost', label: 'L', title: 'Lost' },
+  { key: 'points', label: 'Pts', title: 'Points' },
+  { key: 'win_pct', label: 'Win %', title: 'Win percentage' },
+  { key: 'current_streak', label: 'Streak', title: 'Current winning streak' },
+  { key: 'longest_streak', label: 'Best', title: 'Longest winning streak' }
+]
+
+export default function StandingsTable({ teams, history }: StandingsTableProps) {
+  const [sortKey, setSortKey] = useState<StandingsSortKey>('points')
+  const [direction, setDirection] = useState<'asc' | 'desc'>('desc')
+
+  const changeSort = (key: StandingsSortKey) => {
+    if (key === sortKey) {
+      setDirection(direction === 'desc' ? 'asc' : 'desc')
+    } else {
+      setSortKey(key)
+      setDirection('desc')
+    }
+  }
+
+  const standings = sortStandings(computeStandings(teams, history), sortKey, direction)
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-gray-500 border-b border-glow/10">
+            <th className="text-left py-2 pr-2">#</th>
+            <th className="text-left py-2 pr-4">Team</th>
+            {COLUMNS.map((column) => (
+              <th key={column.key} className="py-2 px-2 text-right">
+                <button
+                  onClick={() => changeSort(column.key)}
+                  title={column.title}
+                  className={`hover:text-glow ${sortKey === column.key ? 'text-glow' : ''}`}
+                >
+                  {column.label}
+                  {sortKey === column.key && (direction === 'desc' ? ' ▾' : ' ▴')}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {standings.map((row, index) => {
+            const team = findTeam({ teams }, row.team)
+            return (
+              <tr key={row.team} className="border-b border-glow/5 text-gray-300">
+                <td className="py-2 pr-2 text-gray-500">{index + 1}</td>
+                <td className="py-2 pr-4">
+                  <span className="inline-flex items-center gap-2">
+                    <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: team.color }} />
+                    {team.name}
+                  </span>
+                </td>
+                {COLUMNS.map((column) => (
+                  <td
+                    key={column.key}
+                    className={`py-2 px-2 text-right font-mono ${column.key === 'points' ? 'text-glow font-bold' : ''}`}
+                  >
+                    {row[column.key]}
+                  </td>
+                ))}
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+import { GameState, activeMatches } from '../lib/rotation'
+
+interface SyncConflictProps {
+  reason: string
+  local: GameState | null
+  cloud: GameState | null
+  pendingCount: number
+  onKeepLocal: () => void
+  onUseCloud: () => void
+}
+
+function describe(state: GameState | null): string {
+  if (!state) return 'No game in progress'
+  const played = `${state.match_history.length} ${state.match_history.length === 1 ? 'match' : 'matches'} played`
+  const playing = activeMatches(state).length
+  return playing > 0 ? `${played}, ${playing === 1 ? 'one' : playing} in progress` : played
+}
+
+// Shown when changes made offline no longer fit what the cloud holds
+export default function SyncConflict({ reason, local, cloud, pendingCount, onKeepLocal, onUseCloud }: SyncConflictProps) {
+  return (
+    <div className="bg-yellow-500/10 border border-yellow-500/50 text-yellow-300 px-6 py-4 rounded-lg mb-6 space-y-3">
+      <p className="font-bold">These changes couldn&apos;t be synced</p>
+      <p className="text-sm">
+        {reason}. This device has {pendingCount} unsynced {pendingCount === 1 ? 'change' : 'changes'} — choose which
+        version of the game to keep.
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <button
+          onClick={onKeepLocal}
+          className="bg-accent border border-yellow-500/30 rounded-lg p-3 text-left hover:border-yellow-500/60"
+        >
+          <span className="block font-medium">Keep this device&apos;s version</span>
+          <span className="block text-xs text-gray-400">{describe(local)}</span>
+        </button>
+        <button
+          onClick={onUseCloud}
+          className="bg-accent border border-yellow-500/30 rounded-lg p-3 text-left hover:border-yellow-500/60"
+        >
+          <span className="block font-medium">Use the cloud version</span>
+          <span className="block text-xs text-gray-400">{describe(cloud)}</span>
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,32 @@
+import type { ReactNode } from 'react'
+import type { Team } from '../lib/rotation'
+
+interface TeamBadgeProps {
+  team: Team
+  className?: string
+  showRoster?: boolean
+  children?: ReactNode
+}
+
+export default function TeamBadge({ team, className = '', showRoster = false, children }: TeamBadgeProps) {
+  return (
+    <div
+      className={`team-badge ${className}`}
+      style={{ borderColor: team.color }}
+      title={team.players.length > 0 ? team.players.join(', ') : undefined}
+    >
+      <span className="inline-flex items-center gap-2">
+        <span className="inline-block w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: team.color }} />
+        {team.name}
+        {children}
+      </span>
+      {showRoster && team.players.length > 0 && (
+        <ul className="mt-2 text-sm font-normal text-gray-300 space-y-0.5">
+          {team.players.map((player) => (
+            <li key={player}>{player}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
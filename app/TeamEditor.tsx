@@ -0,0 +1,43 @@
+'use client'
+
+import { TEAM_COLORS, Team } from '../lib/rotation'
+
+interface TeamEditorProps {
+  team: Team
+  onChange: (team: Team) => void
+}
+
+// Name, bib colour and roster (one player per line) for a single team
+export default function TeamEditor({ team, onChange }: TeamEditorProps) {
+  return (
+    <div className="bg-accent rounded-lg p-4 space-y-3 border" style={{ borderColor: `${team.color}55` }}>
+      <input
+        type="text"
+        value={team.name}
+        onChange={(e) => onChange({ ...team, name: e.target.value })}
+        placeholder={`Team ${team.id}`}
+        className="input-field w-full font-bold"
+      />
+      <div className="flex flex-wrap gap-2">
+        {TEAM_COLORS.map((color) => (
+          <button
+            key={color}
+            type="button"
+            onClick={() => onChange({ ...team, color })}
+            title={color}
+            className={`w-7 h-7 rounded-full border-2 transition-all duration-300 active:scale-95
+              ${team.color === color ? 'border-white scale-110' : 'border-transparent'}`}
+            style={{ backgroundColor: color }}
+          />
+        ))}
+      </div>
+      <textarea
+        value={team.players.join('\n')}
+        onChange={(e) => onChange({ ...team, players: e.target.value.split('\n') })}
+        placeholder="Players, one per line"
+        rows={4}
+        className="input-field w-full text-sm"
+      />
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+import { TeamEvent, Team, describeTeamEvent, findTeam } from '../lib/rotation'
+
+interface TeamEventRowProps {
+  event: TeamEvent
+  teams: Team[]
+}
+
+const ICONS: Record<TeamEvent['type'], string> = {
+  added: '＋',
+  withdrawn: '✕',
+  benched: '⏸',
+  returned: '▶',
+  moved: '↕',
+  swapped: '⇄'
+}
+
+// A team joining, leaving, sitting out or being moved, between the matches in the history
+export default function TeamEventRow({ event, teams }: TeamEventRowProps) {
+  const team = findTeam({ teams }, event.team)
+  return (
+    <div className="px-4 py-2 rounded-lg border border-dashed border-glow/10 text-sm text-gray-400">
+      <div className="flex items-center gap-2">
+        <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: team.color }} />
+        <span className="w-4 text-center text-gray-500">{ICONS[event.type]}</span>
+        <span>{describeTeamEvent({ teams }, event)}</span>
+      </div>
+      {event.note && <p className="text-xs text-gray-500 mt-1 ml-8">{event.note}</p>}
+      {event.reason && <p className="text-xs text-yellow-400/80 mt-1 ml-8">Reason: {event.reason}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+import { Match, Team, findTeam } from '../lib/rotation'
+import { topScorers } from '../lib/standings'
+
+interface TopScorersProps {
+  teams: Team[]
+  history: Match[]
+  limit?: number
+}
+
+export default function TopScorers({ teams, history, limit = 10 }: TopScorersProps) {
+  const scorers = topScorers(history).slice(0, limit)
+  if (scorers.length === 0) {
+    return <p className="text-gray-500">No goals with a named scorer yet</p>
+  }
+  return (
+    <ol className="space-y-2">
+      {scorers.map((tally, index) => {
+        const team = findTeam({ teams }, tally.team)
+        return (
+          <li key={`${tally.team}-${tally.player}`} className="flex items-center gap-3 text-gray-300">
+            <span className="w-6 text-gray-500">{index + 1}</span>
+            <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: team.color }} />
+            <span className="flex-1">{tally.player}</span>
+            <span className="text-xs text-gray-500">{team.name}</span>
+            <span className="font-mono text-glow font-bold w-8 text-right">{tally.goals}</span>
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
@@ -0,0 +1,6 @@
+import Scoreboard from '../Scoreboard'
+import { normalizeSessionCode } from '../../lib/session'
+
+export default function DisplayPage({ searchParams }: { searchParams: { code?: string } }) {
+  return <Scoreboard code={searchParams.code ? normalizeSessionCode(searchParams.code) || null : null} />
+}
@@ -0,0 +1,5 @@
+import ArchiveView from '../../ArchiveView'
+
+export default function ArchivePage({ params }: { params: { id: string } }) {
+  return <ArchiveView id={decodeURIComponent(params.id)} />
+}
@@ -0,0 +1,74 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import BackgroundSlideshow from '../BackgroundSlideshow'
+import { PLAYER_IMAGES } from '../playerImages'
+import { ArchiveSummary, formatArchiveDate } from '../../lib/archive'
+import { sessionStore } from '../../lib/storage'
+
+export default function HistoryPage() {
+  const [archives, setArchives] = useState<ArchiveSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    sessionStore.listArchives()
+      .then(setArchives)
+      .catch((e) => {
+        console.error('Failed to list archived sessions:', e)
+        setError('Could not load past sessions')
+      })
+      .finally(() => setLoading(false))
+  }, [])
+
+  return (
+    <main className="min-h-screen p-8 relative">
+      <BackgroundSlideshow images={PLAYER_IMAGES} interval={4000} />
+
+      <div className="max-w-3xl mx-auto relative z-20">
+        <div className="text-center mb-12">
+          <h1 className="text-5xl font-bold mb-4 text-glow">Past Sessions</h1>
+          <div className="flex justify-center gap-4">
+            <Link href="/" className="text-sm text-gray-500 hover:text-glow">← Back to sessions</Link>
+            <Link href="/leaderboard" className="text-sm text-gray-500 hover:text-glow">Leaderboard</Link>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/50 text-red-400 px-6 py-4 rounded-lg mb-6">
+            {error}
+          </div>
+        )}
+
+        <div className="glow-card">
+          {loading ? (
+            <p className="text-gray-500 animate-pulse">Loading past sessions...</p>
+          ) : archives.length > 0 ? (
+            <div className="space-y-2">
+              {archives.map((archive) => (
+                <Link
+                  key={archive.id}
+                  href={`/history/${archive.id}`}
+                  className="bg-accent p-4 rounded-lg flex items-center justify-between gap-4 border border-glow/10
+                           transition-all duration-300 hover:border-glow/50"
+                >
+                  <div>
+                    <p className="text-white">{archive.name}</p>
+                    <p className="text-xs text-gray-500">{formatArchiveDate(archive.ended_at)}</p>
+                  </div>
+                  <div className="text-right text-sm text-gray-400">
+                    <p>{archive.matches_played} matches</p>
+                    <p className="text-xs text-gray-500">{archive.total_teams} teams</p>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-500">No sessions have been archived yet</p>
+          )}
+        </div>
+      </div>
+    </main>
+  )
+}
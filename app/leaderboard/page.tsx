@@ -0,0 +1,143 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import BackgroundSlideshow from '../BackgroundSlideshow'
+import PlayerLeaderboard from '../PlayerLeaderboard'
+import RatingChart from '../RatingChart'
+import { PLAYER_IMAGES } from '../playerImages'
+import { ArchiveSummary } from '../../lib/archive'
+import { aggregatePlayerStats } from '../../lib/playerStats'
+import { ratingsFromArchives, sortRatings } from '../../lib/ratings'
+import { sessionStore } from '../../lib/storage'
+
+// <input type="date"> values are local calendar days; the end day is inclusive
+const startOfDay = (value: string) => (value ? new Date(`${value}T00:00:00`).getTime() : null)
+const endOfDay = (value: string) => (value ? new Date(`${value}T23:59:59.999`).getTime() : null)
+
+export default function LeaderboardPage() {
+  const [archives, setArchives] = useState<ArchiveSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [chartPlayer, setChartPlayer] = useState<string | null>(null)
+
+  useEffect(() => {
+    sessionStore.listArchives()
+      .then(setArchives)
+      .catch((e) => {
+        console.error('Failed to list archived sessions:', e)
+        setError('Could not load player statistics')
+      })
+      .finally(() => setLoading(false))
+  }, [])
+
+  const fromTime = startOfDay(from)
+  const toTime = endOfDay(to)
+  const records = aggregatePlayerStats(archives, fromTime, toTime)
+  const sessionCount = archives.filter(
+    (a) => (fromTime === null || a.ended_at >= fromTime) && (toTime === null || a.ended_at <= toTime)
+  ).length
+  // Ratings always use every result, whatever the date filter
+  const ratings = sortRatings(ratingsFromArchives(archives))
+  const charted = ratings.find((r) => r.player === chartPlayer) ?? ratings[0]
+
+  return (
+    <main className="min-h-screen p-8 relative">
+      <BackgroundSlideshow images={PLAYER_IMAGES} interval={4000} />
+
+      <div className="max-w-4xl mx-auto relative z-20">
+        <div className="text-center mb-12">
+          <h1 className="text-5xl font-bold mb-4 text-glow">Leaderboard</h1>
+          <p className="text-gray-400 text-lg">Player records across every ended session</p>
+          <div className="mt-3 flex justify-center gap-4">
+            <Link href="/" className="text-sm text-gray-500 hover:text-glow">← Back to sessions</Link>
+            <Link href="/history" className="text-sm text-gray-500 hover:text-glow">Past sessions</Link>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/50 text-red-400 px-6 py-4 rounded-lg mb-6">
+            {error}
+          </div>
+        )}
+
+        <div className="glow-card mb-6">
+          <div className="flex flex-wrap items-end gap-4">
+            <label className="text-sm text-gray-400">
+              From
+              <input
+                type="date"
+                value={from}
+                max={to || undefined}
+                onChange={(e) => setFrom(e.target.value)}
+                className="input-field block mt-1"
+              />
+            </label>
+            <label className="text-sm text-gray-400">
+              To
+              <input
+                type="date"
+                value={to}
+                min={from || undefined}
+                onChange={(e) => setTo(e.target.value)}
+                className="input-field block mt-1"
+              />
+            </label>
+            {(from || to) && (
+              <button
+                onClick={() => { setFrom(''); setTo('') }}
+                className="text-sm text-gray-500 hover:text-glow pb-2"
+              >
+                All time
+              </button>
+            )}
+            <p className="ml-auto text-sm text-gray-500 pb-2">
+              {sessionCount} {sessionCount === 1 ? 'session' : 'sessions'}
+            </p>
+          </div>
+        </div>
+
+        <div className="glow-card">
+          {loading ? (
+            <p className="text-gray-500 animate-pulse">Loading player statistics...</p>
+          ) : (
+            <PlayerLeaderboard records={records} />
+          )}
+        </div>
+
+        {ratings.length > 0 && (
+          <div className="glow-card mt-6">
+            <h3 className="text-xl font-bold mb-4 text-glow">Ratings</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <ol className="space-y-1 max-h-80 overflow-y-auto">
+                {ratings.map((rating, index) => (
+                  <li key={rating.player.toLowerCase()}>
+                    <button
+                      onClick={() => setChartPlayer(rating.player)}
+                      className={`w-full flex items-center gap-3 px-2 py-1 rounded text-left
+                                ${rating === charted ? 'bg-accent text-glow' : 'text-gray-300 hover:text-glow'}`}
+                    >
+                      <span className="w-6 text-gray-500">{index + 1}</span>
+                      <span className="flex-1">{rating.player}</span>
+                      <span className="font-mono font-bold">{Math.round(rating.rating)}</span>
+                    </button>
+                  </li>
+                ))}
+              </ol>
+              {charted && (
+                <div className="md:col-span-2">
+                  <p className="text-sm text-gray-400 mb-2">
+                    {charted.player} — {charted.matches} rated {charted.matches === 1 ? 'match' : 'matches'}
+                  </p>
+                  <RatingChart rating={charted} />
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </main>
+  )
+}
@@ -1,294 +1,93 @@
 'use client'
 
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import AuthStatus from './AuthStatus'
 import BackgroundSlideshow from './BackgroundSlideshow'
-import { db } from '../lib/firebase'
-import { doc, getDoc, setDoc } from 'firebase/firestore'
-
-interface Match {
-  match_number: number
-  team1: number
-  team2: number
-  result?: 'team1_win' | 'team2_win' | 'draw'
-  duration?: string
-}
-
-interface DrawTracker {
-  team1: number
-  team2: number
-  nextToPlay: number
-}
-
-interface GameState {
-  total_teams: number
-  current_match: {
-    team1: number
-    team2: number
-  } | null
-  waiting_queue: number[]
-  match_history: Match[]
-  match_counter: number
-  draw_trackers: DrawTracker[]
-}
-
-// Single shared document — everyone reads/writes the same game
-const SESSION_DOC = doc(db, 'sessions', 'current')
-
-function formatTime(seconds: number): string {
-  const mins = Math.floor(seconds / 60)
-  const secs = seconds % 60
-  return `${String(mins).padStart(2, '0')}:${String(secs).padStart(2, '0')}`
-}
+import { PLAYER_IMAGES } from './playerImages'
+import { useAuthUser } from './useAuthUser'
+import { getDeviceId } from '../lib/device'
+import { importLegacyGame } from '../lib/legacySession'
+import { SessionSummary, displayPath, normalizeSessionCode, sessionPath } from '../lib/session'
+import { sessionStore } from '../lib/storage'
 
 export default function Home() {
-  const [totalTeams, setTotalTeams] = useState<number | ''>(8)
-  const [gameState, setGameState] = useState<GameState | null>(null)
+  const router = useRouter()
+  const { user, ready: authReady } = useAuthUser()
+  // Shared sessions belong to whoever created them
+  const mustSignIn = sessionStore.shared && !user
+  const [sessions, setSessions] = useState<SessionSummary[]>([])
+  const [loadingSessions, setLoadingSessions] = useState(true)
+  const [sessionName, setSessionName] = useState('')
+  const [joinCode, setJoinCode] = useState('')
+  const [creating, setCreating] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [loadingCloud, setLoadingCloud] = useState(true)
-  const [syncStatus, setSyncStatus] = useState<'synced' | 'saving' | 'error'>('synced')
-
-  // Timer state
-  const [elapsedSeconds, setElapsedSeconds] = useState(0)
-  const [timerRunning, setTimerRunning] = useState(false)
-  const [timerPaused, setTimerPaused] = useState(false)
-  const timerRef = useRef<NodeJS.Timeout | null>(null)
-
-  const startTimer = () => {
-    setElapsedSeconds(0)
-    setTimerPaused(false)
-    setTimerRunning(true)
-  }
-
-  const stopTimer = (): string => {
-    const duration = formatTime(elapsedSeconds)
-    setTimerRunning(false)
-    setTimerPaused(false)
-    return duration
-  }
-
-  const togglePause = () => {
-    if (timerPaused) {
-      setTimerPaused(false)
-      setTimerRunning(true)
-    } else {
-      setTimerPaused(true)
-      setTimerRunning(false)
-    }
-  }
 
   useEffect(() => {
-    if (timerRunning) {
-      timerRef.current = setInterval(() => {
-        setElapsedSeconds((prev) => prev + 1)
-      }, 1000)
-    } else {
-      if (timerRef.current) clearInterval(timerRef.current)
-    }
-    return () => {
-      if (timerRef.current) clearInterval(timerRef.current)
-    }
-  }, [timerRunning])
-
-  const handleTeamChange = (value: string) => {
-    if (value === '') { setTotalTeams(''); return }
-    const num = parseInt(value)
-    if (!isNaN(num)) setTotalTeams(num)
-  }
-
-  const incrementTeams = () => {
-    const current = totalTeams === '' ? 3 : totalTeams
-    if (current < 20) setTotalTeams(current + 1)
-  }
-
-  const decrementTeams = () => {
-    const current = totalTeams === '' ? 3 : totalTeams
-    if (current > 3) setTotalTeams(current - 1)
-  }
-
-  // Load game state on mount: try cloud first, fall back to local cache
-  useEffect(() => {
-    const loadGame = async () => {
-      try {
-        const snapshot = await getDoc(SESSION_DOC)
-        if (snapshot.exists()) {
-          const cloudState = snapshot.data() as GameState
-          setGameState(cloudState)
-          localStorage.setItem('football_game_state', JSON.stringify(cloudState))
-        } else {
-          // No cloud session yet — check local cache
-          const saved = localStorage.getItem('football_game_state')
-          if (saved) setGameState(JSON.parse(saved))
-        }
-      } catch (e) {
-        console.error('Failed to load from cloud, using local cache:', e)
-        const saved = localStorage.getItem('football_game_state')
-        if (saved) setGameState(JSON.parse(saved))
-        setSyncStatus('error')
-      }
-      setLoadingCloud(false)
-    }
-    loadGame()
+    sessionStore.listActiveSessions()
+      .then(setSessions)
+      .catch((e) => {
+        console.error('Failed to list sessions:', e)
+        setError('Could not load active sessions')
+      })
+      .finally(() => setLoadingSessions(false))
   }, [])
 
-  // Save to Firestore + localStorage whenever state changes (after initial load)
+  // A game left over from before sessions had codes becomes a session of its
+  // own. On shared backends it needs an owner, so it waits for a sign-in.
   useEffect(() => {
-    if (!gameState || loadingCloud) return
-
-    localStorage.setItem('football_game_state', JSON.stringify(gameState))
-
-    const saveToCloud = async () => {
-      setSyncStatus('saving')
-      try {
-        await setDoc(SESSION_DOC, gameState)
-        setSyncStatus('synced')
-      } catch (e) {
-        console.error('Failed to sync to cloud:', e)
-        setSyncStatus('error')
-      }
-    }
-    saveToCloud()
-  }, [gameState, loadingCloud])
-
-  const startNewGame = () => {
-    const teams = totalTeams === '' ? 3 : totalTeams
-    if (teams < 3 || teams > 20) {
-      setError('Please enter between 3 and 20 teams')
-      return
-    }
-    setGameState({
-      total_teams: teams,
-      current_match: null,
-      waiting_queue: Array.from({ length: teams }, (_, i) => i + 1),
-      match_history: [],
-      match_counter: 0,
-      draw_trackers: []
-    })
-    setError(null)
-  }
-
-  const getNextMatch = () => {
-    if (!gameState) return
-    if (gameState.waiting_queue.length < 2) {
-      setError('Not enough teams in queue to start a match')
-      return
-    }
-    const [team1, team2, ...remainingQueue] = gameState.waiting_queue
-    setGameState({ ...gameState, current_match: { team1, team2 }, waiting_queue: remainingQueue })
-    startTimer()
-    setError(null)
-  }
-
-  const handleDrawTeamSelection = (team1: number, team2: number): number => {
-    if (!gameState) return team1
-    const trackerIndex = gameState.draw_trackers.findIndex(
-      dt => (dt.team1 === team1 && dt.team2 === team2) ||
-            (dt.team1 === team2 && dt.team2 === team1)
-    )
-    if (trackerIndex === -1) {
-      const lowerTeam = Math.min(team1, team2)
-      const higherTeam = Math.max(team1, team2)
-      gameState.draw_trackers.push({ team1: lowerTeam, team2: higherTeam, nextToPlay: higherTeam })
-      return lowerTeam
-    } else {
-      const tracker = gameState.draw_trackers[trackerIndex]
-      const teamToPlay = tracker.nextToPlay
-      tracker.nextToPlay = tracker.nextToPlay === tracker.team1 ? tracker.team2 : tracker.team1
-      return teamToPlay
-    }
-  }
-
-  const recordResult = (result: 'team1_win' | 'team2_win' | 'draw') => {
-    if (!gameState || !gameState.current_match) return
-    const duration = stopTimer()
-    const { team1, team2 } = gameState.current_match
-    const newMatchNumber = gameState.match_counter + 1
-    const match: Match = { match_number: newMatchNumber, team1, team2, result, duration }
-
-    let newQueue = [...gameState.waiting_queue]
-    if (result === 'team1_win') {
-      newQueue = [team1, ...newQueue, team2]
-    } else if (result === 'team2_win') {
-      newQueue = [team2, ...newQueue, team1]
-    } else {
-      const firstToPlay = handleDrawTeamSelection(team1, team2)
-      const secondToPlay = firstToPlay === team1 ? team2 : team1
-      newQueue = [...newQueue, firstToPlay, secondToPlay]
-    }
-
-    setGameState({
-      ...gameState,
-      current_match: null,
-      waiting_queue: newQueue,
-      match_history: [...gameState.match_history, match],
-      match_counter: newMatchNumber
-    })
-    setError(null)
-  }
+    if (!authReady || mustSignIn) return
+    importLegacyGame(sessionStore, getDeviceId())
+      .then((session) => {
+        if (session) setSessions((current) => [session, ...current.filter((s) => s.code !== session.code)])
+      })
+      .catch((e) => {
+        console.error('Failed to move the game from before sessions:', e)
+        setError(`The game from before sessions had codes couldn't be moved: ${(e as Error).message}`)
+      })
+  }, [authReady, mustSignIn])
 
-  const endSession = async () => {
-    setTimerRunning(false)
-    setTimerPaused(false)
-    setElapsedSeconds(0)
-    setGameState(null)
-    localStorage.removeItem('football_game_state')
+  const handleCreate = async () => {
+    setCreating(true)
     try {
-      await setDoc(SESSION_DOC, {
-        total_teams: 0,
-        current_match: null,
-        waiting_queue: [],
-        match_history: [],
-        match_counter: 0,
-        draw_trackers: []
-      })
+      const session = await sessionStore.createSession(sessionName, getDeviceId())
+      router.push(sessionPath(session.code))
     } catch (e) {
-      console.error('Failed to clear cloud session:', e)
+      console.error('Failed to create session:', e)
+      setError((e as Error).message)
+      setCreating(false)
     }
-    setError(null)
   }
 
-  const playerImages = [
-    '/images/players/ofc.jpeg',
-    '/images/players/photo-1574629810360-7efbbe195018.jpg',
-    '/public/images/players/photo-1579952363873-27f3bade9f55(1).jpg',
-    '/images/players/photo-1551958219-acbc608c6377.jpg',
-  ]
-
-  // Show a simple loading state while we check the cloud for an existing session
-  if (loadingCloud) {
-    return (
-      <main className="min-h-screen flex items-center justify-center">
-        <p className="text-glow text-xl animate-pulse">Loading game...</p>
-      </main>
-    )
+  const handleJoin = () => {
+    const code = normalizeSessionCode(joinCode)
+    if (!code) {
+      setError('Enter a session code to join')
+      return
+    }
+    router.push(sessionPath(code))
   }
 
   return (
     <main className="min-h-screen p-8 relative">
-      <BackgroundSlideshow images={playerImages} interval={4000} />
+      <BackgroundSlideshow images={PLAYER_IMAGES} interval={4000} />
 
-      <div className="max-w-6xl mx-auto relative z-20">
+      <div className="max-w-3xl mx-auto relative z-20">
         {/* Header */}
         <div className="text-center mb-12">
           <h1 className="text-5xl font-bold mb-4 text-glow">
             Street Football Rotation Manager
           </h1>
           <p className="text-gray-400 text-lg">4-a-side team rotation system</p>
-
-          {/* Sync status indicator */}
-          {gameState && (
-            <div className="flex items-center justify-center gap-2 mt-3">
-              <span className={`w-2 h-2 rounded-full ${
-                syncStatus === 'synced' ? 'bg-green-500' :
-                syncStatus === 'saving' ? 'bg-yellow-500 animate-pulse' :
-                'bg-red-500'
-              }`} />
-              <span className="text-xs text-gray-500">
-                {syncStatus === 'synced' && 'Synced to cloud'}
-                {syncStatus === 'saving' && 'Saving...'}
-                {syncStatus === 'error' && 'Sync failed — saved locally only'}
-              </span>
-            </div>
-          )}
+          <div className="mt-3 flex justify-center gap-4">
+            <Link href="/history" className="text-sm text-gray-500 hover:text-glow">Past sessions →</Link>
+            <Link href="/leaderboard" className="text-sm text-gray-500 hover:text-glow">Leaderboard →</Link>
+            <Link href={displayPath()} className="text-sm text-gray-500 hover:text-glow">Scoreboard →</Link>
+          </div>
+          <div className="mt-3">
+            <AuthStatus user={user} onError={setError} />
+          </div>
         </div>
 
         {/* Error Display */}
@@ -298,232 +97,74 @@ export default function Home() {
           </div>
         )}
 
-        {/* Start Game Section */}
-        {!gameState && (
-          <div className="glow-card max-w-md mx-auto">
-            <h2 className="text-2xl font-bold mb-6 text-glow">Start New Game</h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+          <div className="glow-card">
+            <h2 className="text-2xl font-bold mb-6 text-glow">New Session</h2>
             <div className="space-y-4">
-              <div>
-                <label className="block text-gray-400 mb-2">Number of Teams (3-20)</label>
-                <div className="flex items-center gap-3">
-                  <button
-                    type="button"
-                    onClick={decrementTeams}
-                    disabled={totalTeams !== '' && totalTeams <= 3}
-                    className="flex-shrink-0 w-12 h-12 bg-accent border border-glow/30 text-glow font-bold text-xl 
-                             rounded-lg transition-all duration-300 hover:bg-glow/10 hover:border-glow/60 
-                             hover:shadow-glow disabled:opacity-30 disabled:cursor-not-allowed active:scale-95"
-                  >
-                    −
-                  </button>
-                  <input
-                    type="text"
-                    inputMode="numeric"
-                    pattern="[0-9]*"
-                    value={totalTeams}
-                    onChange={(e) => handleTeamChange(e.target.value)}
-                    onFocus={(e) => e.target.select()}
-                    placeholder="8"
-                    className="input-field w-full text-center text-2xl font-bold"
-                  />
-                  <button
-                    type="button"
-                    onClick={incrementTeams}
-                    disabled={totalTeams !== '' && totalTeams >= 20}
-                    className="flex-shrink-0 w-12 h-12 bg-accent border border-glow/30 text-glow font-bold text-xl 
-                             rounded-lg transition-all duration-300 hover:bg-glow/10 hover:border-glow/60 
-                             hover:shadow-glow disabled:opacity-30 disabled:cursor-not-allowed active:scale-95"
-                  >
-                    +
-                  </button>
-                </div>
-              </div>
-              <button onClick={startNewGame} className="glow-button w-full">
-                Start Game
+              <input
+                type="text"
+                value={sessionName}
+                onChange={(e) => setSessionName(e.target.value)}
+                placeholder="e.g. Tuesday — Pitch 2"
+                className="input-field w-full"
+              />
+              <button
+                onClick={handleCreate}
+                disabled={creating || !authReady || mustSignIn}
+                className="glow-button w-full disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {creating ? 'Creating...' : 'Create Session'}
               </button>
-            </div>
-          </div>
-        )}
-
-        {/* Game Interface */}
-        {gameState && (
-          <div className="space-y-8">
-            {/* Current Match */}
-            <div className="glow-card">
-
-              <div className="flex items-center justify-between mb-6">
-                <h2 className="text-2xl font-bold text-glow">Current Match</h2>
-
-                {gameState.current_match && (
-                  <div className="flex items-center gap-2">
-                    <div className={`flex items-center gap-2 border rounded-xl px-4 py-2 transition-all duration-300
-                      ${timerPaused
-                        ? 'bg-yellow-500/10 border-yellow-500/40'
-                        : 'bg-black/40 border-glow/30'
-                      }`}
-                    >
-                      <span className="relative flex h-3 w-3">
-                        <span className={`absolute animate-ping inline-flex h-full w-full rounded-full opacity-75
-                          ${timerPaused ? 'bg-yellow-400' : 'bg-green-400'}`}
-                        />
-                        <span className={`relative inline-flex rounded-full h-3 w-3
-                          ${timerPaused ? 'bg-yellow-500' : 'bg-green-500'}`}
-                        />
-                      </span>
-                      <span className={`text-2xl font-mono font-bold tracking-widest
-                        ${timerPaused ? 'text-yellow-400' : 'text-glow'}`}
-                      >
-                        {formatTime(elapsedSeconds)}
-                      </span>
-                    </div>
-
-                    <button
-                      onClick={togglePause}
-                      title={timerPaused ? 'Resume timer' : 'Pause timer'}
-                      className={`w-10 h-10 rounded-xl border flex items-center justify-center
-                               transition-all duration-300 active:scale-95
-                        ${timerPaused
-                          ? 'bg-yellow-500/20 border-yellow-500/60 text-yellow-400 hover:bg-yellow-500/30'
-                          : 'bg-black/40 border-glow/30 text-glow hover:bg-glow/10 hover:border-glow/60'
-                        }`}
-                    >
-                      {timerPaused ? (
-                        <svg viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4">
-                          <path d="M8 5v14l11-7z" />
-                        </svg>
-                      ) : (
-                        <svg viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4">
-                          <path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z" />
-                        </svg>
-                      )}
-                    </button>
-                  </div>
-                )}
-              </div>
-
-              {gameState.current_match ? (
-                <div className="space-y-6">
-                  <div className="flex items-center justify-center gap-8">
-                    <div className="team-badge text-3xl">
-                      Team {gameState.current_match.team1}
-                    </div>
-                    <div className="text-2xl text-gray-500">vs</div>
-                    <div className="team-badge text-3xl">
-                      Team {gameState.current_match.team2}
-                    </div>
-                  </div>
-                  <div className="grid grid-cols-3 gap-4">
-                    <button onClick={() => recordResult('team1_win')} className="glow-button">
-                      Team {gameState.current_match.team1} Wins
-                    </button>
-                    <button onClick={() => recordResult('draw')} className="glow-button">
-                      Draw
-                    </button>
-                    <button onClick={() => recordResult('team2_win')} className="glow-button">
-                      Team {gameState.current_match.team2} Wins
-                    </button>
-                  </div>
-                </div>
-              ) : (
-                <div className="text-center">
-                  <p className="text-gray-400 mb-4">
-                    {gameState.waiting_queue.length < 2
-                      ? 'Not enough teams to start a match'
-                      : 'No current match — click below to start next match'}
-                  </p>
-                  <button
-                    onClick={getNextMatch}
-                    disabled={gameState.waiting_queue.length < 2}
-                    className="glow-button disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    Get Next Match
-                  </button>
-                </div>
-              )}
-            </div>
-
-            {/* Game Info Grid */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div className="glow-card">
-                <h3 className="text-xl font-bold mb-4 text-glow">Waiting Queue</h3>
-                {gameState.waiting_queue.length > 0 ? (
-                  <div className="space-y-2">
-                    <p className="text-sm text-gray-500 mb-2">Next teams to play (in order):</p>
-                    <div className="flex flex-wrap gap-2">
-                      {gameState.waiting_queue.map((team, index) => (
-                        <div
-                          key={`${team}-${index}`}
-                          className={`team-badge text-sm ${index < 2 ? 'ring-2 ring-glow' : ''}`}
-                        >
-                          Team {team}
-                          {index < 2 && <span className="ml-1 text-xs">▶</span>}
-                        </div>
-                      ))}
-                    </div>
-                  </div>
-                ) : (
-                  <p className="text-gray-500">No teams in queue</p>
-                )}
-              </div>
-
-              <div className="glow-card">
-                <h3 className="text-xl font-bold mb-4 text-glow">Session Info</h3>
-                <div className="space-y-2 text-gray-400">
-                  <p>Total Teams: <span className="text-glow">{gameState.total_teams}</span></p>
-                  <p>Matches Played: <span className="text-glow">{gameState.match_history.length}</span></p>
-                  <p>Teams in Queue: <span className="text-glow">{gameState.waiting_queue.length}</span></p>
-                </div>
-              </div>
-            </div>
-
-            {/* Match History */}
-            <div className="glow-card">
-              <h3 className="text-xl font-bold mb-4 text-glow">Match History</h3>
-              {gameState.match_history.length > 0 ? (
-                <div className="space-y-2 max-h-96 overflow-y-auto">
-                  {[...gameState.match_history].reverse().map((match) => (
-                    <div
-                      key={match.match_number}
-                      className="bg-accent p-4 rounded-lg flex items-center justify-between border border-glow/10"
-                    >
-                      <span className="text-gray-400">Match {match.match_number}</span>
-                      <div className="flex items-center gap-4">
-                        <span className={match.result === 'team1_win' ? 'text-glow font-bold' : 'text-gray-400'}>
-                          Team {match.team1}
-                        </span>
-                        <span className="text-gray-500">vs</span>
-                        <span className={match.result === 'team2_win' ? 'text-glow font-bold' : 'text-gray-400'}>
-                          Team {match.team2}
-                        </span>
-                      </div>
-                      <span className="text-sm text-gray-500">
-                        {match.result === 'draw' ? 'Draw' : match.result === 'team1_win' ? 'T1 Win' : 'T2 Win'}
-                      </span>
-                      {match.duration && (
-                        <span className="text-xs font-mono bg-black/40 border border-glow/20 text-glow px-2 py-1 rounded-lg">
-                          ⏱ {match.duration}
-                        </span>
-                      )}
-                    </div>
-                  ))}
-                </div>
-              ) : (
-                <p className="text-gray-500">No matches played yet</p>
+              {authReady && mustSignIn && (
+                <p className="text-xs text-gray-500">Sign in to create a session — anyone can watch without signing in</p>
               )}
             </div>
+          </div>
 
-            {/* Actions */}
-            <div className="flex gap-4 justify-center">
-              <button
-                onClick={endSession}
-                className="bg-accent border border-red-500/30 text-red-400 font-medium px-6 py-3 rounded-lg 
-                         transition-all duration-300 hover:shadow-glow hover:border-red-500/60"
-              >
-                End Session
+          <div className="glow-card">
+            <h2 className="text-2xl font-bold mb-6 text-glow">Join Session</h2>
+            <div className="space-y-4">
+              <input
+                type="text"
+                value={joinCode}
+                onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+                onKeyDown={(e) => e.key === 'Enter' && handleJoin()}
+                placeholder="Session code"
+                autoCapitalize="characters"
+                className="input-field w-full text-center text-2xl font-mono tracking-widest"
+              />
+              <button onClick={handleJoin} className="glow-button w-full">
+                Join
               </button>
+              <p className="text-xs text-gray-500 text-center">
+                Or scan the QR code shown on the organiser&apos;s phone
+              </p>
             </div>
           </div>
-        )}
+        </div>
+
+        <div className="glow-card">
+          <h3 className="text-xl font-bold mb-4 text-glow">Active Sessions</h3>
+          {loadingSessions ? (
+            <p className="text-gray-500 animate-pulse">Loading sessions...</p>
+          ) : sessions.length > 0 ? (
+            <div className="space-y-2">
+              {sessions.map((session) => (
+                <Link
+                  key={session.code}
+                  href={sessionPath(session.code)}
+                  className="bg-accent p-4 rounded-lg flex items-center justify-between border border-glow/10
+                           transition-all duration-300 hover:border-glow/50"
+                >
+                  <span className="text-white">{session.name}</span>
+                  <span className="font-mono text-glow tracking-widest">{session.code}</span>
+                </Link>
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-500">No active sessions</p>
+          )}
+        </div>
       </div>
     </main>
   )
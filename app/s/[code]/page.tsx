@@ -0,0 +1,12 @@
+import GameSession from '../../GameSession'
+import { normalizeSessionCode } from '../../../lib/session'
+
+export default function SessionPage({
+  params,
+  searchParams
+}: {
+  params: { code: string }
+  searchParams: { invite?: string }
+}) {
+  return <GameSession code={normalizeSessionCode(params.code)} invite={searchParams.invite} />
+}
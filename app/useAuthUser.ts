@@ -0,0 +1,22 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { AuthUser, watchAuthUser } from '../lib/auth'
+import { sessionStore } from '../lib/storage'
+
+// The signed-in user, or null. `ready` turns true once Firebase has restored
+// any earlier sign-in; local-only sessions never need one.
+export function useAuthUser(): { user: AuthUser | null; ready: boolean } {
+  const [user, setUser] = useState<AuthUser | null>(null)
+  const [ready, setReady] = useState(!sessionStore.shared)
+
+  useEffect(() => {
+    if (!sessionStore.shared) return
+    return watchAuthUser((next) => {
+      setUser(next)
+      setReady(true)
+    })
+  }, [])
+
+  return { user, ready }
+}
@@ -0,0 +1,65 @@
+// lib/archive.ts
+// Ended sessions are kept as read-only archives instead of being wiped
+import { GameState } from './rotation'
+import { PlayerSessionStats, sessionPlayerStats } from './playerStats'
+import { RatedMatch, ratedMatches } from './ratings'
+import { SessionSummary } from './session'
+import { TeamStanding, computeStandings } from './standings'
+
+export interface SessionArchive {
+  id: string
+  code: string
+  name: string
+  started_at: number
+  ended_at: number
+  // Undo/redo stacks are dropped — an archive can't be changed
+  state: GameState
+  standings: TeamStanding[]
+  // Feeds the cross-session leaderboard; missing on archives made before it existed
+  player_stats?: PlayerSessionStats[]
+  rated_matches?: RatedMatch[]
+}
+
+export type ArchiveSummary = Omit<SessionArchive, 'state' | 'standings' | 'player_stats' | 'rated_matches'> & {
+  matches_played: number
+  total_teams: number
+  player_stats: PlayerSessionStats[]
+  rated_matches: RatedMatch[]
+}
+
+export function buildArchive(session: SessionSummary, state: GameState, endedAt: number): SessionArchive {
+  return {
+    id: `${session.code}-${endedAt}`,
+    code: session.code,
+    name: session.name,
+    started_at: session.created_at,
+    ended_at: endedAt,
+    state: { ...state, undo_stack: [], redo_stack: [] },
+    standings: computeStandings(state.teams, state.match_history),
+    player_stats: sessionPlayerStats(state),
+    rated_matches: ratedMatches(state.teams, state.match_history, endedAt)
+  }
+}
+
+export function summarizeArchive(archive: SessionArchive): ArchiveSummary {
+  return {
+    id: archive.id,
+    code: archive.code,
+    name: archive.name,
+    started_at: archive.started_at,
+    ended_at: archive.ended_at,
+    matches_played: archive.state.match_history.length,
+    total_teams: archive.state.total_teams,
+    player_stats: archive.player_stats ?? sessionPlayerStats(archive.state),
+    rated_matches: archive.rated_matches ?? ratedMatches(archive.state.teams, archive.state.match_history, archive.ended_at)
+  }
+}
+
+export function formatArchiveDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString(undefined, {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric'
+  })
+}
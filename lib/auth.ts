@@ -0,0 +1,67 @@
+// lib/auth.ts
+// Who is signed in. Only the shared backends need it — a local-only session
+// belongs to whoever holds the browser.
+import {
+  GoogleAuthProvider,
+  User,
+  onAuthStateChanged,
+  signInWithPopup,
+  signOut as firebaseSignOut
+} from 'firebase/auth'
+import { getFirebaseAuth } from './firebase'
+import { RotationError } from './rotation'
+
+// The backend refused because of who is asking, not because of the game
+export class PermissionDeniedError extends RotationError {
+  constructor(message = 'Only the session\'s organisers can change the game') {
+    super(message)
+    this.name = 'PermissionDeniedError'
+  }
+}
+
+export type SessionRole = 'owner' | 'organiser' | 'spectator'
+
+export interface AuthUser {
+  uid: string
+  name: string
+  email: string | null
+}
+
+export const ROLE_LABELS: Record<SessionRole, string> = {
+  owner: 'Owner',
+  organiser: 'Organiser',
+  spectator: 'Spectator'
+}
+
+// Spectators can watch but not change anything
+export function canOrganise(role: SessionRole): boolean {
+  return role !== 'spectator'
+}
+
+function toAuthUser(user: User): AuthUser {
+  return { uid: user.uid, name: user.displayName ?? user.email ?? 'Signed in', email: user.email }
+}
+
+export function currentUser(): AuthUser | null {
+  const user = getFirebaseAuth().currentUser
+  return user ? toAuthUser(user) : null
+}
+
+// Calls back straight away with the restored sign-in, then on every change
+export function watchAuthUser(onChange: (user: AuthUser | null) => void): () => void {
+  return onAuthStateChanged(getFirebaseAuth(), (user) => onChange(user ? toAuthUser(user) : null))
+}
+
+export async function signIn(): Promise<AuthUser> {
+  const { user } = await signInWithPopup(getFirebaseAuth(), new GoogleAuthProvider())
+  return toAuthUser(user)
+}
+
+export async function signOut(): Promise<void> {
+  await firebaseSignOut(getFirebaseAuth())
+}
+
+// For backends that verify the caller themselves
+export async function getIdToken(): Promise<string | null> {
+  return (await getFirebaseAuth().currentUser?.getIdToken()) ?? null
+}
@@ -0,0 +1,63 @@
+// lib/balance.ts
+// Split checked-in players into teams of similar total skill
+import { DEFAULT_SKILL, PoolPlayer } from './players'
+import { MAX_TEAMS, MIN_TEAMS, RotationError } from './rotation'
+
+export const DEFAULT_TEAM_SIZE = 4
+
+const skillOf = (p: PoolPlayer) => p.skill ?? DEFAULT_SKILL
+
+export function teamSkill(players: PoolPlayer[]): number {
+  return players.reduce((sum, p) => sum + skillOf(p), 0)
+}
+
+/**
+ * Greedy balancing: strongest players are placed first, each onto the
+ * smallest team with the lowest total skill, preferring a team that doesn't
+ * already have someone in the same position. Players of equal skill are
+ * shuffled with `random`, so calling again gives a different but still
+ * balanced split. Leftover players make some teams one bigger.
+ */
+export function generateBalancedTeams(
+  players: PoolPlayer[],
+  teamSize = DEFAULT_TEAM_SIZE,
+  random: () => number = Math.random
+): PoolPlayer[][] {
+  const teamCount = Math.min(Math.floor(players.length / teamSize), MAX_TEAMS)
+  if (teamCount < MIN_TEAMS) {
+    throw new RotationError(
+      `Need at least ${MIN_TEAMS * teamSize} players for ${MIN_TEAMS} teams of ${teamSize}`
+    )
+  }
+
+  const ordered = players
+    .map((player) => ({ player, tiebreak: random() }))
+    .sort((a, b) => skillOf(b.player) - skillOf(a.player) || a.tiebreak - b.tiebreak)
+    .map(({ player }) => player)
+
+  const teams: PoolPlayer[][] = Array.from({ length: teamCount }, () => [])
+  for (const player of ordered) {
+    const smallest = Math.min(...teams.map((t) => t.length))
+    const candidates = teams.filter((t) => t.length === smallest)
+    const withoutPosition = player.position
+      ? candidates.filter((t) => !t.some((p) => p.position === player.position))
+      : []
+    const pool = withoutPosition.length > 0 ? withoutPosition : candidates
+    const target = pool.reduce((best, t) => (teamSkill(t) < teamSkill(best) ? t : best))
+    target.push(player)
+  }
+  return teams
+}
+
+// Swap two players between (or within) generated teams
+export function swapPlayers(
+  teams: PoolPlayer[][],
+  a: { team: number; index: number },
+  b: { team: number; index: number }
+): PoolPlayer[][] {
+  const next = teams.map((t) => [...t])
+  const playerA = next[a.team][a.index]
+  next[a.team][a.index] = next[b.team][b.index]
+  next[b.team][b.index] = playerA
+  return next
+}
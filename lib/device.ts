@@ -0,0 +1,12 @@
+// lib/device.ts
+const DEVICE_KEY = 'football_device_id'
+
+// Stable per-browser id, used to tell our own writes apart from other devices'
+export function getDeviceId(): string {
+  let id = localStorage.getItem(DEVICE_KEY)
+  if (!id) {
+    id = Math.random().toString(36).slice(2, 10) + Date.now().toString(36)
+    localStorage.setItem(DEVICE_KEY, id)
+  }
+  return id
+}
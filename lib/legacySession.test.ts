@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { SCHEMA_VERSION } from './rotation'
+import { legacySessionDocument } from './legacySession'
+
+// A game as the app saved it to sessions/current before sessions had codes
+const baselineGame = {
+  total_teams: 4,
+  current_match: { team1: 1, team2: 3 },
+  waiting_queue: [4, 2],
+  match_history: [{ match_number: 1, team1: 1, team2: 2, result: 'team1_win', duration: '07:12' }],
+  match_counter: 1,
+  draw_trackers: []
+}
+
+describe('legacySessionDocument', () => {
+  it('moves the old shared game into a session of its own, upgraded to the current shape', () => {
+    const data = legacySessionDocument(baselineGame, 'ABC234', 'device-1', 'uid-1')
+    expect(data).toMatchObject({ code: 'ABC234', active: true, owner: 'uid-1', updated_by: 'device-1' })
+    expect(data?.state).toMatchObject({
+      schema_version: SCHEMA_VERSION,
+      waiting_queue: [4, 2],
+      match_history: baselineGame.match_history,
+      pitches: [{ match: { team1: 1, team2: 3 } }]
+    })
+  })
+})
@@ -0,0 +1,48 @@
+// lib/legacySession.ts
+// Before sessions had codes, everyone shared one game: the bare GameState at
+// sessions/current, cached on each device under football_game_state. It is
+// moved into a coded session of its own the first time the app finds it.
+import { loadGameState } from './rotation'
+import { SessionDocument, SessionSummary, newSessionDocument } from './session'
+import type { SessionStore } from './storage'
+
+export const LEGACY_SESSION_ID = 'current'
+export const LEGACY_LOCAL_KEY = 'football_game_state'
+export const LEGACY_SESSION_NAME = 'Game from before sessions'
+
+/**
+ * The old shared game as a new session, or null when there's nothing worth
+ * moving — no game, or the empty one that ending a game used to leave
+ * behind. Throws InvalidGameStateError if the old game can't be read.
+ */
+export function legacySessionDocument(
+  legacy: unknown,
+  code: string,
+  deviceId: string,
+  owner: string | null = null
+): SessionDocument | null {
+  const state = loadGameState(legacy)
+  if (!state) return null
+  return { ...newSessionDocument(code, LEGACY_SESSION_NAME, deviceId, owner), state }
+}
+
+// This device's copy of the old game; an unreadable one can't be moved anyway
+function readLegacyCache(): unknown {
+  const saved = localStorage.getItem(LEGACY_LOCAL_KEY)
+  if (!saved) return null
+  try {
+    return JSON.parse(saved)
+  } catch (e) {
+    console.error('Discarding unreadable game from before sessions:', e)
+    return null
+  }
+}
+
+// Resolves to the new session, or null if there was nothing to move. The
+// device's copy is only dropped once the backend has dealt with it.
+export async function importLegacyGame(store: SessionStore, deviceId: string): Promise<SessionSummary | null> {
+  if (localStorage.getItem(LEGACY_LOCAL_KEY) === null && !store.shared) return null
+  const session = await store.importLegacySession(deviceId, readLegacyCache())
+  localStorage.removeItem(LEGACY_LOCAL_KEY)
+  return session
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { PermissionDeniedError } from './auth'
+import { PendingChange, flushPendingChanges } from './offlineQueue'
+import { InvalidGameStateError, RotationCommand, StaleCommandError, commandBasis, createGameState } from './rotation'
+import type { SessionStore } from './storage'
+
+const basis = commandBasis(createGameState(4))
+const change = (now: number): PendingChange => ({
+  kind: 'command',
+  command: { type: 'start_next_match', now } as RotationCommand,
+  basis,
+  queued_at: now
+})
+
+// Only the calls a flush makes; each refuses with `failure` once `sent` have gone
+function storeFailingWith(failure: unknown, sent = 0): SessionStore {
+  let calls = 0
+  const send = async () => {
+    if (calls++ >= sent) throw failure
+  }
+  return { applySessionCommand: send, saveSession: send } as unknown as SessionStore
+}
+
+const flush = (store: SessionStore, changes: PendingChange[]) =>
+  flushPendingChanges(store, 'ABC123', 'device', changes, () => {})
+
+describe('flushPendingChanges', () => {
+  it('sends everything when nothing is refused', async () => {
+    expect(await flush(storeFailingWith(new Error(), 2), [change(1), change(2)])).toEqual({ status: 'synced' })
+  })
+
+  it('calls it a conflict when the cloud has moved on', async () => {
+    const outcome = await flush(storeFailingWith(new StaleCommandError('The game was changed on another device'), 1), [change(1), change(2)])
+    expect(outcome).toEqual({ status: 'conflict', remaining: [change(2)], reason: 'The game was changed on another device' })
+  })
+
+  it('reports permission and validation refusals as errors', async () => {
+    const refused = await flush(storeFailingWith(new PermissionDeniedError()), [change(1)])
+    expect(refused).toMatchObject({ status: 'error', reason: 'Only the session\'s organisers can change the game' })
+    const invalid = await flush(storeFailingWith(new InvalidGameStateError(['total_teams must be a positive whole number'])), [change(1)])
+    expect(invalid).toMatchObject({ status: 'error', remaining: [change(1)] })
+  })
+
+  it('treats anything else as still being offline', async () => {
+    expect(await flush(storeFailingWith(new Error('Failed to fetch')), [change(1)])).toEqual({
+      status: 'offline',
+      remaining: [change(1)]
+    })
+  })
+})
@@ -0,0 +1,103 @@
+// lib/offlineQueue.ts
+// Changes made while the backend was unreachable, kept in this browser and
+// replayed in order once it comes back
+import { CommandBasis, CurrentMatch, GameState, RotationCommand, RotationError, StaleCommandError, commandBasis } from './rotation'
+import type { SessionStore } from './storage'
+
+export type PendingChange =
+  | { kind: 'command'; command: RotationCommand; basis: CommandBasis; queued_at: number }
+  // A wholesale save (new game, import, end). `cloud_basis` is what the cloud
+  // looked like when it was queued, so a change made since can be spotted;
+  // null forces the save through.
+  | { kind: 'save'; state: GameState | null; cloud_basis: CommandBasis | null; queued_at: number }
+
+export type FlushOutcome =
+  | { status: 'synced' }
+  | { status: 'offline'; remaining: PendingChange[] }
+  | { status: 'conflict'; remaining: PendingChange[]; reason: string }
+  // Refused for who sent it or what it would do, not because it's out of date
+  | { status: 'error'; remaining: PendingChange[]; reason: string }
+
+const PENDING_PREFIX = 'football_pending:'
+const FIRST_RETRY_MS = 2000
+const MAX_RETRY_MS = 60_000
+
+const pendingKey = (code: string) => `${PENDING_PREFIX}${code}`
+
+// Changes queued before sessions could have several pitches were all for the
+// one pitch, and their basis had a single current match
+const SINGLE_PITCH_COMMANDS = ['record_result', 'record_goal', 'remove_goal', 'pause_clock', 'resume_clock', 'swap_match_team']
+
+function upgradeBasis(basis: CommandBasis | null): CommandBasis | null {
+  if (!basis || 'matches' in basis) return basis
+  const { match_counter, undo_depth, current_match } = basis as { current_match?: CurrentMatch | null } & Omit<CommandBasis, 'matches'>
+  return { match_counter, undo_depth, matches: [current_match ?? null] }
+}
+
+function upgradeChange(change: PendingChange): PendingChange {
+  if (change.kind === 'save') return { ...change, cloud_basis: upgradeBasis(change.cloud_basis) }
+  const command = SINGLE_PITCH_COMMANDS.includes(change.command.type) && !('pitch' in change.command)
+    ? ({ ...change.command, pitch: 0 } as RotationCommand)
+    : change.command
+  return { ...change, command, basis: upgradeBasis(change.basis)! }
+}
+
+export function loadPendingChanges(code: string): PendingChange[] {
+  const saved = localStorage.getItem(pendingKey(code))
+  if (!saved) return []
+  try {
+    const parsed = JSON.parse(saved)
+    return Array.isArray(parsed) ? (parsed as PendingChange[]).map(upgradeChange) : []
+  } catch (e) {
+    // Unreadable queue — nothing can be sent from it, so start afresh
+    console.error('Discarding unreadable pending changes:', e)
+    return []
+  }
+}
+
+export function savePendingChanges(code: string, changes: PendingChange[]): void {
+  if (changes.length === 0) localStorage.removeItem(pendingKey(code))
+  else localStorage.setItem(pendingKey(code), JSON.stringify(changes))
+}
+
+// 2s, 4s, 8s… capped at a minute
+export function retryDelay(attempt: number): number {
+  return Math.min(MAX_RETRY_MS, FIRST_RETRY_MS * Math.pow(2, attempt))
+}
+
+export function cloudBasis(cloud: GameState | null): CommandBasis | null {
+  return cloud ? commandBasis(cloud) : null
+}
+
+/**
+ * Sends pending changes oldest first, stopping at the first that can't go.
+ * A stale change means the cloud moved on in the meantime — the caller
+ * decides which version to keep. Other refusals, such as a permission or an
+ * invalid game, are errors; anything else is treated as still being offline.
+ */
+export async function flushPendingChanges(
+  store: SessionStore,
+  code: string,
+  deviceId: string,
+  changes: PendingChange[],
+  onSent: (remaining: PendingChange[]) => void
+): Promise<FlushOutcome> {
+  let remaining = changes
+  while (remaining.length > 0) {
+    const [change, ...rest] = remaining
+    try {
+      if (change.kind === 'command') {
+        await store.applySessionCommand(code, change.command, change.basis, deviceId)
+      } else {
+        await store.saveSession(code, change.state, deviceId, change.cloud_basis)
+      }
+    } catch (e) {
+      if (e instanceof StaleCommandError) return { status: 'conflict', remaining, reason: e.message }
+      if (e instanceof RotationError) return { status: 'error', remaining, reason: e.message }
+      return { status: 'offline', remaining }
+    }
+    remaining = rest
+    onSent(remaining)
+  }
+  return { status: 'synced' }
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { GameState, applyCommand, createGameState } from './rotation'
+import { play } from './rotation/testHelpers'
+import { sessionPlayerStats } from './playerStats'
+
+function playWith(state: GameState, players: Record<number, string[]>): GameState {
+  let next = state
+  for (const team of state.teams) {
+    if (players[team.id]) next = applyCommand(next, { type: 'update_team', team: { ...team, players: players[team.id] } })
+  }
+  return play(next, 'team1_win')
+}
+
+const statsFor = (state: GameState, player: string) => sessionPlayerStats(state).find((s) => s.player === player)
+
+describe('sessionPlayerStats', () => {
+  it('credits players only with the matches they were in the lineup for', () => {
+    let state = playWith(createGameState(3), { 1: ['Ann'], 2: ['Bo'], 3: ['Cy'] })
+    // Ann moves to team 3 and Dee takes her place before team 1 plays again
+    state = playWith(state, { 1: ['Dee'], 3: ['Cy', 'Ann'] })
+
+    expect(statsFor(state, 'Ann')).toMatchObject({ played: 2, won: 1, lost: 1 })
+    expect(statsFor(state, 'Dee')).toMatchObject({ played: 1, won: 1, lost: 0 })
+    expect(statsFor(state, 'Bo')).toMatchObject({ played: 1, won: 0, lost: 1 })
+  })
+
+  it('falls back to the roster for matches without lineups', () => {
+    const state = playWith(createGameState(3), { 1: ['Ann'], 2: ['Bo'] })
+    const older = { ...state, match_history: state.match_history.map((match) => ({ ...match, lineups: undefined })) }
+    expect(statsFor(older, 'Ann')).toMatchObject({ played: 1, won: 1 })
+  })
+
+  it('lists rostered players who never got a game', () => {
+    const state = playWith(createGameState(4), { 4: ['Eve'] })
+    expect(statsFor(state, 'Eve')).toMatchObject({ played: 0 })
+  })
+})
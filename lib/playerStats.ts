@@ -0,0 +1,123 @@
+// lib/playerStats.ts
+// Per-player records that outlive a session — team numbers are thrown away, names aren't
+import type { GameState } from './rotation'
+import { findTeam } from './rotation'
+
+// One player's line from a single session, stored with its archive
+export interface PlayerSessionStats {
+  player: string
+  played: number
+  won: number
+  drawn: number
+  lost: number
+  goals: number
+}
+
+export interface PlayerRecord extends PlayerSessionStats {
+  // Sessions the player turned up to
+  attended: number
+  // 0–100
+  win_pct: number
+}
+
+export type PlayerSortKey = Exclude<keyof PlayerRecord, 'player'>
+
+export interface ArchivedPlayerStats {
+  ended_at: number
+  player_stats: PlayerSessionStats[]
+}
+
+const playerKey = (name: string) => name.trim().toLowerCase()
+
+// Credits each player with the results of the matches they were in the lineup
+// for. Matches recorded before lineups were kept fall back to the final rosters.
+export function sessionPlayerStats(state: GameState): PlayerSessionStats[] {
+  const lines = new Map<string, PlayerSessionStats>()
+  const line = (name: string) => {
+    const key = playerKey(name)
+    if (!lines.has(key)) lines.set(key, { player: name.trim(), played: 0, won: 0, drawn: 0, lost: 0, goals: 0 })
+    return lines.get(key)!
+  }
+
+  // Everyone on a roster turned up, whether or not they got a game
+  for (const team of state.teams) {
+    for (const name of team.players) {
+      if (name.trim()) line(name)
+    }
+  }
+  for (const match of state.match_history) {
+    if (!match.result) continue
+    const sides = [
+      { players: match.lineups?.team1 ?? findTeam(state, match.team1).players, won: 'team1_win' },
+      { players: match.lineups?.team2 ?? findTeam(state, match.team2).players, won: 'team2_win' }
+    ]
+    for (const side of sides) {
+      for (const name of side.players) {
+        if (!name.trim()) continue
+        const entry = line(name)
+        entry.played++
+        if (match.result === 'draw') entry.drawn++
+        else if (match.result === side.won) entry.won++
+        else entry.lost++
+      }
+    }
+  }
+  // Scorers who weren't on a roster still get their goals
+  for (const match of state.match_history) {
+    for (const goal of match.goals ?? []) {
+      if (goal.scorer?.trim()) line(goal.scorer).goals++
+    }
+  }
+  return Array.from(lines.values())
+}
+
+// Totals across archived sessions that ended within [from, to]
+export function aggregatePlayerStats(
+  archives: ArchivedPlayerStats[],
+  from: number | null = null,
+  to: number | null = null
+): PlayerRecord[] {
+  const records = new Map<string, PlayerRecord>()
+  const inRange = archives
+    .filter((a) => (from === null || a.ended_at >= from) && (to === null || a.ended_at <= to))
+    .sort((a, b) => a.ended_at - b.ended_at)
+
+  for (const archive of inRange) {
+    for (const stats of archive.player_stats) {
+      const key = playerKey(stats.player)
+      const record = records.get(key) ?? {
+        player: stats.player, attended: 0, played: 0, won: 0, drawn: 0, lost: 0, goals: 0, win_pct: 0
+      }
+      // Latest spelling of the name wins
+      record.player = stats.player
+      record.attended++
+      record.played += stats.played
+      record.won += stats.won
+      record.drawn += stats.drawn
+      record.lost += stats.lost
+      record.goals += stats.goals
+      records.set(key, record)
+    }
+  }
+
+  return Array.from(records.values()).map((r) => ({
+    ...r,
+    win_pct: r.played > 0 ? Math.round((r.won / r.played) * 100) : 0
+  }))
+}
+
+// Wins first, then fewest games — or a single chosen column
+export function sortPlayerRecords(
+  records: PlayerRecord[],
+  key: PlayerSortKey = 'won',
+  direction: 'asc' | 'desc' = 'desc'
+): PlayerRecord[] {
+  const sign = direction === 'desc' ? 1 : -1
+  return [...records].sort(
+    (a, b) =>
+      sign * (b[key] - a[key]) ||
+      b.won - a.won ||
+      a.played - b.played ||
+      a.player.localeCompare(b.player)
+  )
+}
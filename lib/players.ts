@@ -0,0 +1,41 @@
+// lib/players.ts
+// The group's saved player pool, shared by every session
+
+export type Position = 'GK' | 'DEF' | 'MID' | 'FWD'
+
+export const POSITIONS: Position[] = ['GK', 'DEF', 'MID', 'FWD']
+
+export const MIN_SKILL = 1
+export const MAX_SKILL = 5
+// Unrated players are treated as average when balancing
+export const DEFAULT_SKILL = 3
+
+export interface PoolPlayer {
+  name: string
+  skill?: number
+  position?: Position
+  // Elo rating as of the last result they played in (see ratings.ts)
+  rating?: number
+}
+
+export function samePlayer(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase()
+}
+
+// Add a player, or replace the existing entry with the same name
+export function upsertPlayer(pool: PoolPlayer[], player: PoolPlayer): PoolPlayer[] {
+  // Leave unset fields out entirely — Firestore rejects undefined values
+  const cleaned: PoolPlayer = { name: player.name.trim() }
+  if (player.skill !== undefined) cleaned.skill = player.skill
+  if (player.position) cleaned.position = player.position
+  if (player.rating !== undefined) cleaned.rating = player.rating
+  const exists = pool.some((p) => samePlayer(p.name, cleaned.name))
+  const next = exists
+    ? pool.map((p) => (samePlayer(p.name, cleaned.name) ? cleaned : p))
+    : [...pool, cleaned]
+  return next.sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export function removePlayer(pool: PoolPlayer[], name: string): PoolPlayer[] {
+  return pool.filter((p) => !samePlayer(p.name, name))
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest'
+import { Match, defaultTeams } from './rotation'
+import {
+  DEFAULT_RATING,
+  K_FACTOR,
+  RatedMatch,
+  computeRatings,
+  matchFairness,
+  playerRating,
+  ratedMatches,
+  ratingsFromArchives,
+  storeRatings,
+  teamRating,
+  winProbability
+} from './ratings'
+
+const rated = (team1: string[], team2: string[], result: RatedMatch['result'], at = 0): RatedMatch =>
+  ({ at, team1, team2, result })
+
+describe('computeRatings', () => {
+  it('moves everyone on an even match by half the K factor', () => {
+    const ratings = computeRatings([rated(['Ann', 'Bo'], ['Cy', 'Dee'], 'team1_win')])
+    expect(playerRating(ratings, 'Ann')).toBe(DEFAULT_RATING + K_FACTOR / 2)
+    expect(playerRating(ratings, 'Bo')).toBe(DEFAULT_RATING + K_FACTOR / 2)
+    expect(playerRating(ratings, 'Cy')).toBe(DEFAULT_RATING - K_FACTOR / 2)
+  })
+
+  it('leaves an even draw where it was', () => {
+    const ratings = computeRatings([rated(['Ann'], ['Bo'], 'draw')])
+    expect(playerRating(ratings, 'Ann')).toBe(DEFAULT_RATING)
+    expect(ratings.get('ann')?.matches).toBe(1)
+  })
+
+  it('gives less for beating a weaker side than for an upset', () => {
+    const warmUp = [rated(['Ann'], ['Bo'], 'team1_win'), rated(['Ann'], ['Bo'], 'team1_win')]
+    const expected = computeRatings([...warmUp, rated(['Ann'], ['Bo'], 'team1_win')])
+    const upset = computeRatings([...warmUp, rated(['Ann'], ['Bo'], 'team2_win')])
+    const before = computeRatings(warmUp)
+    const gain = playerRating(expected, 'Ann') - playerRating(before, 'Ann')
+    const loss = playerRating(before, 'Ann') - playerRating(upset, 'Ann')
+    expect(gain).toBeLessThan(K_FACTOR / 2)
+    expect(loss).toBeGreaterThan(K_FACTOR / 2)
+    expect(gain + loss).toBeCloseTo(K_FACTOR)
+  })
+
+  it('treats names the same whatever their case or spacing', () => {
+    const ratings = computeRatings([rated(['Ann '], ['Bo'], 'team1_win'), rated(['ann'], ['Bo'], 'team1_win')])
+    expect(ratings.get('ann')).toMatchObject({ player: 'ann', matches: 2 })
+  })
+
+  it('skips results with nobody named on a side', () => {
+    expect(computeRatings([rated(['Ann'], [' '], 'team1_win')]).size).toBe(0)
+  })
+
+  it('keeps a point per match with when it was played', () => {
+    const ratings = computeRatings([rated(['Ann'], ['Bo'], 'team1_win', 100), rated(['Ann'], ['Bo'], 'draw', 200)])
+    expect(ratings.get('ann')?.history.map((p) => p.at)).toEqual([100, 200])
+  })
+})
+
+describe('team ratings', () => {
+  const ratings = computeRatings([rated(['Ann'], ['Bo'], 'team1_win')])
+
+  it('average the named players, counting newcomers at the default', () => {
+    expect(teamRating(ratings, ['Ann', 'New'])).toBe(DEFAULT_RATING + K_FACTOR / 4)
+    expect(teamRating(ratings, ['', ' '])).toBe(DEFAULT_RATING)
+  })
+
+  it('set the chance of winning from the gap between the averages', () => {
+    expect(winProbability(ratings, ['Cy'], ['Dee'])).toBe(0.5)
+    const favourite = winProbability(ratings, ['Ann'], ['Bo'])
+    expect(favourite).toBeGreaterThan(0.5)
+    expect(favourite + winProbability(ratings, ['Bo'], ['Ann'])).toBeCloseTo(1)
+  })
+})
+
+describe('matchFairness', () => {
+  it('calls a match even, an edge or a mismatch by how far the odds are from 50/50', () => {
+    const ratings = computeRatings(Array.from({ length: 12 }, () => rated(['Ann'], ['Bo'], 'team1_win')))
+    expect(matchFairness(ratings, ['Cy'], ['Dee']).verdict).toBe('even')
+    expect(matchFairness(ratings, ['Ann'], ['Bo']).verdict).toBe('mismatch')
+    expect(matchFairness(ratings, ['Ann', 'Bo'], ['Cy', 'Dee']).verdict).toBe('even')
+    expect(matchFairness(ratings, ['Ann'], ['Cy']).verdict).toBe('edge')
+  })
+})
+
+describe('ratedMatches', () => {
+  it('uses when each match finished, falling back for matches that don\'t say', () => {
+    const history: Match[] = [
+      { match_number: 1, team1: 1, team2: 2, result: 'team1_win', ended_at: 500 },
+      { match_number: 2, team1: 1, team2: 2, result: 'draw' },
+      { match_number: 3, team1: 1, team2: 2 }
+    ]
+    const teams = defaultTeams(2).map((team) => ({ ...team, players: [`P${team.id}`] }))
+    expect(ratedMatches(teams, history, 900)).toEqual([
+      rated(['P1'], ['P2'], 'team1_win', 500),
+      rated(['P1'], ['P2'], 'draw', 900)
+    ])
+  })
+
+  it('plays archived sessions in the order they ended, before the live one', () => {
+    const archives = [
+      { ended_at: 20, rated_matches: [rated(['Ann'], ['Bo'], 'team2_win', 20)] },
+      { ended_at: 10, rated_matches: [rated(['Ann'], ['Bo'], 'team1_win', 10)] }
+    ]
+    const ratings = ratingsFromArchives(archives, [rated(['Ann'], ['Cy'], 'draw', 30)])
+    expect(ratings.get('ann')?.history.map((p) => p.at)).toEqual([10, 20, 30])
+  })
+})
+
+describe('storeRatings', () => {
+  it('saves the rounded rating with each player, keeping their saved name and adding anyone new', () => {
+    const ratings = computeRatings([rated(['Ann'], ['Bo'], 'team1_win')])
+    const pool = storeRatings([{ name: 'ann', skill: 4 }], ratings, ['Ann', 'Bo', ''])
+    expect(pool).toEqual([
+      { name: 'ann', skill: 4, rating: DEFAULT_RATING + K_FACTOR / 2 },
+      { name: 'Bo', rating: DEFAULT_RATING - K_FACTOR / 2 }
+    ])
+  })
+})
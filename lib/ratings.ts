@@ -0,0 +1,148 @@
+// lib/ratings.ts
+// Elo-style player ratings, replayed from every recorded result so that undo
+// and archived sessions never leave them out of step. The latest rating is
+// also kept with each player in the pool.
+import type { Match, MatchResult, Team } from './rotation'
+import { findTeam } from './rotation'
+import { PoolPlayer, samePlayer, upsertPlayer } from './players'
+
+export const DEFAULT_RATING = 1000
+// How far one result can move a rating
+export const K_FACTOR = 32
+// Win chances inside this band count as an even match
+const EVEN_MARGIN = 0.1
+const MISMATCH_MARGIN = 0.25
+
+// A result reduced to who played — team numbers mean nothing across sessions
+export interface RatedMatch {
+  at: number
+  team1: string[]
+  team2: string[]
+  result: MatchResult
+}
+
+export interface RatingPoint {
+  at: number
+  rating: number
+}
+
+export interface PlayerRating {
+  player: string
+  rating: number
+  matches: number
+  // Rating after each match, oldest first
+  history: RatingPoint[]
+}
+
+export type RatingTable = Map<string, PlayerRating>
+
+const playerKey = (name: string) => name.trim().toLowerCase()
+
+// Falls back to the final rosters for matches recorded before lineups were
+// kept, and to `fallbackAt` for matches recorded before their time was
+export function ratedMatches(teams: Team[], history: Match[], fallbackAt: number): RatedMatch[] {
+  const found: RatedMatch[] = []
+  for (const match of history) {
+    if (!match.result) continue
+    found.push({
+      at: match.ended_at ?? fallbackAt,
+      team1: match.lineups?.team1 ?? findTeam({ teams }, match.team1).players,
+      team2: match.lineups?.team2 ?? findTeam({ teams }, match.team2).players,
+      result: match.result
+    })
+  }
+  return found
+}
+
+export interface ArchivedRatedMatches {
+  ended_at: number
+  rated_matches: RatedMatch[]
+}
+
+// Every archived result in the order it was played, then the live session's
+export function ratingsFromArchives(archives: ArchivedRatedMatches[], live: RatedMatch[] = []): RatingTable {
+  const archived = [...archives]
+    .sort((a, b) => a.ended_at - b.ended_at)
+    .flatMap((a) => a.rated_matches)
+  return computeRatings([...archived, ...live])
+}
+
+export function playerRating(ratings: RatingTable, name: string): number {
+  return ratings.get(playerKey(name))?.rating ?? DEFAULT_RATING
+}
+
+// A team plays at its players' average rating
+export function teamRating(ratings: RatingTable, players: string[]): number {
+  const named = players.filter((p) => p.trim())
+  if (named.length === 0) return DEFAULT_RATING
+  return named.reduce((sum, p) => sum + playerRating(ratings, p), 0) / named.length
+}
+
+// Chance that the first side beats the second, 0–1
+export function winProbability(ratings: RatingTable, team1: string[], team2: string[]): number {
+  const diff = teamRating(ratings, team2) - teamRating(ratings, team1)
+  return 1 / (1 + Math.pow(10, diff / 400))
+}
+
+// Replays matches in order; everyone on a side moves by the same amount
+export function computeRatings(matches: RatedMatch[]): RatingTable {
+  const ratings: RatingTable = new Map()
+  const entry = (name: string) => {
+    const key = playerKey(name)
+    if (!ratings.has(key)) ratings.set(key, { player: name.trim(), rating: DEFAULT_RATING, matches: 0, history: [] })
+    return ratings.get(key)!
+  }
+
+  for (const match of matches) {
+    const team1 = match.team1.filter((p) => p.trim())
+    const team2 = match.team2.filter((p) => p.trim())
+    // Nobody to credit on one side — nothing to learn from it
+    if (team1.length === 0 || team2.length === 0) continue
+    const expected = winProbability(ratings, team1, team2)
+    const actual = match.result === 'team1_win' ? 1 : match.result === 'draw' ? 0.5 : 0
+    const change = K_FACTOR * (actual - expected)
+    const sides: [string[], number][] = [[team1, change], [team2, -change]]
+    for (const [players, delta] of sides) {
+      for (const name of players) {
+        const player = entry(name)
+        player.player = name.trim()
+        player.rating += delta
+        player.matches++
+        player.history.push({ at: match.at, rating: Math.round(player.rating) })
+      }
+    }
+  }
+  return ratings
+}
+
+// The pool with `players` carrying their current rating; anyone not in the
+// pool yet is added
+export function storeRatings(pool: PoolPlayer[], ratings: RatingTable, players: string[]): PoolPlayer[] {
+  return players
+    .filter((name) => name.trim())
+    .reduce((next, name) => {
+      const saved = next.find((p) => samePlayer(p.name, name)) ?? { name }
+      return upsertPlayer(next, { ...saved, rating: Math.round(playerRating(ratings, name)) })
+    }, pool)
+}
+
+export function sortRatings(ratings: RatingTable): PlayerRating[] {
+  return Array.from(ratings.values()).sort(
+    (a, b) => b.rating - a.rating || b.matches - a.matches || a.player.localeCompare(b.player)
+  )
+}
+
+export interface Fairness {
+  // Chance the first team wins, 0–1
+  team1_win: number
+  verdict: 'even' | 'edge' | 'mismatch'
+}
+
+export function matchFairness(ratings: RatingTable, team1: string[], team2: string[]): Fairness {
+  const team1Win = winProbability(ratings, team1, team2)
+  const margin = Math.abs(team1Win - 0.5)
+  return {
+    team1_win: team1Win,
+    verdict: margin < EVEN_MARGIN ? 'even' : margin < MISMATCH_MARGIN ? 'edge' : 'mismatch'
+  }
+}
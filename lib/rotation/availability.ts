@@ -0,0 +1,53 @@
+// lib/rotation/availability.ts
+// Teams turning up late, leaving early or sitting a few games out
+import type { GameState, TeamEvent, TeamEventType } from './types'
+import { teamName } from './teams'
+import { playingTeams } from './pitches'
+
+export type TeamStatus = 'playing' | 'waiting' | 'benched' | 'withdrawn'
+
+export function teamStatus(state: GameState, team: number): TeamStatus {
+  if (playingTeams(state).includes(team)) return 'playing'
+  if (!state.waiting_queue.includes(team)) return 'withdrawn'
+  return state.benched.includes(team) ? 'benched' : 'waiting'
+}
+
+// The queue as "Get Next Match" sees it
+export function availableQueue(state: GameState): number[] {
+  return state.waiting_queue.filter((team) => !state.benched.includes(team))
+}
+
+export function logTeamEvent(
+  state: GameState,
+  type: TeamEventType,
+  team: number,
+  now: number,
+  details: Pick<TeamEvent, 'other' | 'note' | 'reason'> = {}
+): TeamEvent[] {
+  const event: TeamEvent = { type, team, after_match: state.match_counter, time: now }
+  // Leave unset details out entirely — Firestore rejects undefined values
+  if (details.other !== undefined) event.other = details.other
+  if (details.note) event.note = details.note
+  if (details.reason) event.reason = details.reason
+  return [...state.team_events, event]
+}
+
+export function describeTeamEvent(state: Pick<GameState, 'teams'>, event: TeamEvent): string {
+  const name = teamName(state, event.team)
+  switch (event.type) {
+    case 'added':
+      return `${name} joined the session`
+    case 'withdrawn':
+      return `${name} left the session`
+    case 'benched':
+      return `${name} was benched`
+    case 'returned':
+      return `${name} came back off the bench`
+    case 'moved':
+      return `${name} was moved in the queue`
+    case 'swapped':
+      return event.other !== undefined
+        ? `${name} was swapped into the match for ${teamName(state, event.other)}`
+        : `${name} was swapped into the match`
+  }
+}
@@ -0,0 +1,26 @@
+// lib/rotation/clock.ts
+import type { MatchClock } from './types'
+
+export function startClock(now: number): MatchClock {
+  return { started_at: now, paused_at: null, paused_ms: 0 }
+}
+
+export function isClockPaused(clock: MatchClock): boolean {
+  return clock.paused_at !== null
+}
+
+// Whole seconds of play, not counting pauses
+export function clockElapsedSeconds(clock: MatchClock, now: number): number {
+  const until = clock.paused_at ?? now
+  return Math.max(0, Math.floor((until - clock.started_at - clock.paused_ms) / 1000))
+}
+
+export function pauseClock(clock: MatchClock, now: number): MatchClock {
+  if (clock.paused_at !== null) return clock
+  return { ...clock, paused_at: now }
+}
+
+export function resumeClock(clock: MatchClock, now: number): MatchClock {
+  if (clock.paused_at === null) return clock
+  return { ...clock, paused_at: null, paused_ms: clock.paused_ms + Math.max(0, now - clock.paused_at) }
+}
@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest'
+import {
+  GameState,
+  MIN_REMAINING_TEAMS,
+  MIN_TEAMS,
+  RuleSet,
+  applyCommand,
+  assertFreshSave,
+  commandBasis,
+  createGameState,
+  resolveDrawOrder
+} from '.'
+import { finish, play, start, tick } from './testHelpers'
+
+function session(teams: number, rules?: RuleSet): GameState {
+  return createGameState(teams, rules)
+}
+
+describe('winner stays', () => {
+  it('keeps the winner on and sends the loser to the back', () => {
+    const state = play(session(4), 'team1_win')
+    expect(state.waiting_queue).toEqual([1, 3, 4, 2])
+    expect(state.pitches[0].streak).toEqual({ team: 1, matches: 1, wins: 1 })
+
+    const next = start(state)
+    expect(next.pitches[0].match).toMatchObject({ team1: 1, team2: 3 })
+  })
+
+  it('counts a streak only while the same team stays on', () => {
+    let state = play(session(4), 'team1_win')
+    state = play(state, 'team1_win')
+    expect(state.pitches[0].streak).toEqual({ team: 1, matches: 2, wins: 2 })
+
+    state = play(state, 'team2_win')
+    expect(state.pitches[0].streak).toEqual({ team: 4, matches: 1, wins: 1 })
+    expect(state.waiting_queue).toEqual([4, 2, 3, 1])
+  })
+
+  it('derives the result from the goals when none is given', () => {
+    let state = start(session(4))
+    state = applyCommand(state, { type: 'record_goal', pitch: 0, team: 2, now: tick() })
+    state = applyCommand(state, { type: 'record_result', pitch: 0, now: tick() })
+    expect(state.match_history[0]).toMatchObject({ result: 'team2_win', score: { team1: 0, team2: 1 } })
+    expect(state.waiting_queue[0]).toBe(2)
+  })
+
+  it('refuses a result that contradicts the goals', () => {
+    let state = start(session(4))
+    state = applyCommand(state, { type: 'record_goal', pitch: 0, team: 2, now: tick() })
+    expect(() => finish(state, 'team1_win')).toThrow('doesn\'t match the goals')
+  })
+})
+
+describe('draws', () => {
+  it('sends both teams to the back, lower number first', () => {
+    const state = play(session(4), 'draw')
+    expect(state.waiting_queue).toEqual([3, 4, 1, 2])
+    expect(state.pitches[0].streak).toBeNull()
+    expect(state.draw_trackers).toEqual([{ team1: 1, team2: 2, nextToPlay: 2 }])
+  })
+
+  it('alternates who goes first when the same pair draw again', () => {
+    let state = play(session(3), 'draw')
+    expect(state.waiting_queue).toEqual([3, 1, 2])
+    state = play(state, 'team1_win') // 3 beats 1
+    state = play(state, 'team1_win') // 3 beats 2
+    state = play(state, 'team2_win') // 1 beats 3
+    expect(state.waiting_queue).toEqual([1, 2, 3])
+
+    state = play(state, 'draw')
+    expect(state.waiting_queue).toEqual([3, 2, 1])
+    expect(state.draw_trackers).toEqual([{ team1: 1, team2: 2, nextToPlay: 1 }])
+  })
+})
+
+describe('resolveDrawOrder', () => {
+  it('starts a tracker with the lower team first', () => {
+    const order = resolveDrawOrder([], 5, 2)
+    expect(order).toEqual({ first: 2, second: 5, draw_trackers: [{ team1: 2, team2: 5, nextToPlay: 5 }] })
+  })
+
+  it('flips the tracker on every later draw, whichever way round the teams are given', () => {
+    const second = resolveDrawOrder([{ team1: 2, team2: 5, nextToPlay: 5 }], 2, 5)
+    expect([second.first, second.second]).toEqual([5, 2])
+    const third = resolveDrawOrder(second.draw_trackers, 5, 2)
+    expect([third.first, third.second]).toEqual([2, 5])
+    expect(third.draw_trackers).toEqual([{ team1: 2, team2: 5, nextToPlay: 5 }])
+  })
+
+  it('keeps a separate tracker for each pair', () => {
+    const trackers = resolveDrawOrder([{ team1: 1, team2: 2, nextToPlay: 2 }], 3, 4).draw_trackers
+    expect(trackers).toEqual([
+      { team1: 1, team2: 2, nextToPlay: 2 },
+      { team1: 3, team2: 4, nextToPlay: 4 }
+    ])
+  })
+})
+
+describe('winner stays (capped)', () => {
+  it('takes both teams off once the winner reaches the cap', () => {
+    let state = session(4, { id: 'winner_capped', max_wins: 2 })
+    state = play(state, 'team1_win')
+    expect(state.waiting_queue).toEqual([1, 3, 4, 2])
+
+    state = play(state, 'team1_win')
+    expect(state.waiting_queue).toEqual([4, 2, 3, 1])
+    expect(state.pitches[0].streak).toBeNull()
+    expect(state.match_history[1].note).toContain('2 wins in a row')
+  })
+})
+
+describe('longest on leaves', () => {
+  it('sends the team that has been on longest off after a draw', () => {
+    let state = session(4, { id: 'longest_on_leaves' })
+    state = play(state, 'team1_win') // 1 stays on
+    state = play(state, 'draw') // 1 vs 3
+    expect(state.waiting_queue).toEqual([3, 4, 2, 1])
+    expect(state.pitches[0].streak).toEqual({ team: 3, matches: 1, wins: 0 })
+  })
+
+  it('takes turns at who stays when both came on together', () => {
+    let state = session(4, { id: 'longest_on_leaves' })
+    state = play(state, 'draw')
+    expect(state.waiting_queue).toEqual([1, 3, 4, 2])
+    expect(state.pitches[0].streak).toEqual({ team: 1, matches: 1, wins: 0 })
+  })
+})
+
+describe('everyone plays', () => {
+  it('sends both teams to the back, winner first', () => {
+    const state = play(session(4, { id: 'everyone_plays' }), 'team2_win')
+    expect(state.waiting_queue).toEqual([3, 4, 2, 1])
+    expect(state.pitches[0].streak).toBeNull()
+  })
+
+  it('gives every team a match before anyone plays twice', () => {
+    let state = session(6, { id: 'everyone_plays' })
+    for (let i = 0; i < 3; i++) state = play(state, 'team1_win')
+    const played = state.match_history.flatMap((m) => [m.team1, m.team2])
+    expect(new Set(played).size).toBe(6)
+  })
+})
+
+describe('withdrawing teams', () => {
+  it('lets teams leave a minimum-size session until two are left', () => {
+    let state = session(MIN_TEAMS)
+    while (state.total_teams > MIN_REMAINING_TEAMS) {
+      state = applyCommand(state, { type: 'withdraw_team', team: state.waiting_queue[state.waiting_queue.length - 1], now: tick() })
+    }
+    expect(state.waiting_queue).toHaveLength(MIN_REMAINING_TEAMS)
+    expect(() => applyCommand(state, { type: 'withdraw_team', team: state.waiting_queue[0], now: tick() })).toThrow(
+      `at least ${MIN_REMAINING_TEAMS} teams`
+    )
+  })
+})
+
+describe('assertFreshSave', () => {
+  it('lets a save through while the stored game is still the one it was made against', () => {
+    const state = start(session(4))
+    expect(() => assertFreshSave(state, commandBasis(state))).not.toThrow()
+    expect(() => assertFreshSave(null, null)).not.toThrow()
+  })
+
+  it('refuses a save once another device has moved the game on', () => {
+    const state = start(session(4))
+    const moved = finish(state, 'draw')
+    expect(() => assertFreshSave(moved, commandBasis(state))).toThrow('changed on another device')
+    expect(() => assertFreshSave(null, commandBasis(state))).toThrow('changed on another device')
+  })
+
+  it('forces the save through without a basis', () => {
+    expect(() => assertFreshSave(start(session(4)), null)).not.toThrow()
+  })
+})
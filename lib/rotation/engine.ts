@@ -0,0 +1,485 @@
+// lib/rotation/engine.ts
+// Pure rotation rules: every function takes a GameState and returns a new one,
+// never touching the input, so the same rules can run outside React.
+import type {
+  CommandBasis,
+  CurrentMatch,
+  Fixture,
+  GameState,
+  Match,
+  MatchResult,
+  MatchSettings,
+  RotationCommand,
+  RuleSet,
+  Score,
+  SessionFormat,
+  Team
+} from './types'
+import { pushUndo, redo, undo } from './history'
+import { cleanTeam, defaultTeams, findTeam, teamName } from './teams'
+import { addGoal, resultFromScore, scoreFromGoals, withoutGoal } from './goals'
+import { DEFAULT_RULES, Placement, cleanRuleSet, placeTeams } from './rules'
+import { DEFAULT_SETTINGS, cleanSettings } from './settings'
+import { clockElapsedSeconds, pauseClock, resumeClock, startClock } from './clock'
+import { logTeamEvent, teamStatus } from './availability'
+import { FORMATS, createFixtures, nextPairing, placeFixtureTeams, tournamentComplete } from './tournament'
+import { MAX_PITCHES, clearStreak, emptyPitches, freePitch, onPitch, sameCurrentMatch, teamPitch, updatePitch } from './pitches'
+import { formatTime } from '../time'
+
+export const MIN_TEAMS = 3
+// A session can start with MIN_TEAMS, but teams may leave until two are left
+export const MIN_REMAINING_TEAMS = 2
+export const MAX_TEAMS = 20
+// Bump with a new step in migrations.ts whenever the stored shape changes
+export const SCHEMA_VERSION = 4
+
+export class RotationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RotationError'
+  }
+}
+
+export class StaleCommandError extends RotationError {
+  constructor(message: string) {
+    super(message)
+    this.name = 'StaleCommandError'
+  }
+}
+
+// Accepts a team count for plain numbered teams, or fully described teams.
+// Tournaments are seeded in the order the teams are given.
+export function createGameState(
+  teamsOrCount: number | Team[],
+  rules: RuleSet = DEFAULT_RULES,
+  settings: MatchSettings = DEFAULT_SETTINGS,
+  format: SessionFormat = 'rotation',
+  pitchCount = 1
+): GameState {
+  const teams = typeof teamsOrCount === 'number' ? defaultTeams(teamsOrCount) : teamsOrCount.map(cleanTeam)
+  if (teams.length < MIN_TEAMS || teams.length > MAX_TEAMS) {
+    throw new RotationError(`Please enter between ${MIN_TEAMS} and ${MAX_TEAMS} teams`)
+  }
+  const names = new Set(teams.map((t) => t.name.toLowerCase()))
+  if (names.size !== teams.length) {
+    throw new RotationError('Each team needs a different name')
+  }
+  if (!Number.isInteger(pitchCount) || pitchCount < 1 || pitchCount > MAX_PITCHES) {
+    throw new RotationError(`A session can use between 1 and ${MAX_PITCHES} pitches`)
+  }
+  return {
+    schema_version: SCHEMA_VERSION,
+    format,
+    fixtures: createFixtures(format, teams.map((t) => t.id)),
+    total_teams: teams.length,
+    teams,
+    rules: cleanRuleSet(rules),
+    settings: cleanSettings(settings),
+    pitches: emptyPitches(pitchCount),
+    waiting_queue: teams.map((t) => t.id),
+    benched: [],
+    match_history: [],
+    match_counter: 0,
+    draw_trackers: [],
+    team_events: [],
+    undo_stack: [],
+    redo_stack: [],
+    undone_history: []
+  }
+}
+
+// The match on a pitch, for commands that need one in progress
+function pitchMatch(state: GameState, pitch: number): CurrentMatch {
+  const match = state.pitches[pitch]?.match
+  if (!match) {
+    throw new RotationError(`There is no match in progress${onPitch(state, pitch)}`)
+  }
+  return match
+}
+
+export function startNextMatch(state: GameState, now: number, requested?: number): GameState {
+  const pitch = requested ?? freePitch(state)
+  if (pitch === -1) {
+    throw new RotationError(state.pitches.length > 1 ? 'Every pitch already has a match in progress' : 'A match is already in progress')
+  }
+  if (!state.pitches[pitch]) {
+    throw new RotationError(`There is no pitch ${pitch + 1} in this session`)
+  }
+  if (state.pitches[pitch].match) {
+    throw new RotationError(`A match is already in progress${onPitch(state, pitch)}`)
+  }
+  const pairing = nextPairing(state, pitch)
+  if (!pairing) {
+    throw new RotationError(tournamentComplete(state)
+      ? 'Every fixture has been played'
+      : 'Not enough teams in queue to start a match')
+  }
+  const [team1, team2] = pairing
+  return {
+    ...state,
+    pitches: updatePitch(state, pitch, { match: { team1, team2, goals: [], clock: startClock(now) } }),
+    // Benched teams ahead of them keep their places
+    waiting_queue: state.waiting_queue.filter((t) => t !== team1 && t !== team2)
+  }
+}
+
+// Knockout ties can't be drawn, so a level score needs a shootout winner
+function checkPenalties(state: GameState, result: MatchResult, penalties: Score | undefined): Score | undefined {
+  const shootout = state.format === 'knockout' && result === 'draw'
+  if (!penalties) {
+    if (shootout) throw new RotationError('A knockout tie needs a winner — enter the penalty shootout score')
+    return undefined
+  }
+  if (!shootout) {
+    throw new RotationError('Penalties only settle a knockout tie that is level at full time')
+  }
+  const { team1, team2 } = penalties
+  if (![team1, team2].every((n) => Number.isInteger(n) && n >= 0)) {
+    throw new RotationError('Penalty scores must be whole numbers')
+  }
+  if (team1 === team2) {
+    throw new RotationError('The shootout can\'t finish level — keep going until one team misses')
+  }
+  return { team1, team2 }
+}
+
+export function recordResult(
+  state: GameState,
+  pitch: number,
+  explicitResult: MatchResult | undefined,
+  now: number,
+  penalties?: Score
+): GameState {
+  const current = pitchMatch(state, pitch)
+  const { team1, team2, goals, clock } = current
+  const score = scoreFromGoals(current, goals)
+  const derived = resultFromScore(score)
+  if (explicitResult && goals.length > 0 && explicitResult !== derived) {
+    throw new RotationError('That result doesn\'t match the goals recorded — fix the score first')
+  }
+  const result = explicitResult ?? derived
+  const shootout = checkPenalties(state, result, penalties)
+  const newMatchNumber = state.match_counter + 1
+  const match: Match = {
+    match_number: newMatchNumber,
+    team1,
+    team2,
+    result,
+    score,
+    goals,
+    duration: formatTime(clockElapsedSeconds(clock, now)),
+    ended_at: now,
+    lineups: {
+      team1: [...findTeam(state, team1).players],
+      team2: [...findTeam(state, team2).players]
+    }
+  }
+  if (shootout) match.penalties = shootout
+  if (state.pitches.length > 1) match.pitch = pitch
+
+  const placement: Placement & { fixtures?: Fixture[] } = state.format === 'rotation'
+    ? placeTeams(state, state.pitches[pitch].streak, team1, team2, result)
+    : placeFixtureTeams(state, match)
+  if (placement.note) match.note = placement.note
+
+  return {
+    ...state,
+    fixtures: placement.fixtures ?? state.fixtures,
+    pitches: updatePitch(state, pitch, { match: null, streak: placement.streak }),
+    waiting_queue: placement.waiting_queue,
+    match_history: [...state.match_history, match],
+    match_counter: newMatchNumber,
+    draw_trackers: placement.draw_trackers
+  }
+}
+
+export function recordGoal(state: GameState, pitch: number, team: number, now: number, scorer?: string): GameState {
+  const match = pitchMatch(state, pitch)
+  if (team !== match.team1 && team !== match.team2) {
+    throw new RotationError(`${teamName(state, team)} is not playing in this match`)
+  }
+  const scored = addGoal(match, { team, time: clockElapsedSeconds(match.clock, now), scorer })
+  return { ...state, pitches: updatePitch(state, pitch, { match: scored }) }
+}
+
+export function removeGoal(state: GameState, pitch: number, index: number): GameState {
+  const match = state.pitches[pitch]?.match
+  if (!match?.goals[index]) {
+    throw new RotationError('That goal has already been removed')
+  }
+  return { ...state, pitches: updatePitch(state, pitch, { match: withoutGoal(match, index) }) }
+}
+
+export function setClockPaused(state: GameState, pitch: number, paused: boolean, now: number): GameState {
+  const match = pitchMatch(state, pitch)
+  const clock = paused ? pauseClock(match.clock, now) : resumeClock(match.clock, now)
+  return { ...state, pitches: updatePitch(state, pitch, { match: { ...match, clock } }) }
+}
+
+export function updateTeam(state: GameState, team: Team): GameState {
+  if (!state.teams.some((t) => t.id === team.id)) {
+    throw new RotationError(`There is no team ${team.id} in this session`)
+  }
+  const updated = cleanTeam(team)
+  if (state.teams.some((t) => t.id !== team.id && t.name.toLowerCase() === updated.name.toLowerCase())) {
+    throw new RotationError('Each team needs a different name')
+  }
+  return { ...state, teams: state.teams.map((t) => (t.id === team.id ? updated : t)) }
+}
+
+export function addTeam(state: GameState, team: Omit<Team, 'id'>, position: number, now: number): GameState {
+  if (state.teams.length >= MAX_TEAMS) {
+    throw new RotationError(`A session can have at most ${MAX_TEAMS} teams`)
+  }
+  const id = Math.max(0, ...state.teams.map((t) => t.id)) + 1
+  const added = cleanTeam({ ...team, id })
+  if (state.teams.some((t) => t.name.toLowerCase() === added.name.toLowerCase())) {
+    throw new RotationError('Each team needs a different name')
+  }
+  const at = Math.min(Math.max(0, Math.round(position)), state.waiting_queue.length)
+  const next = { ...state, teams: [...state.teams, added] }
+  return {
+    ...next,
+    total_teams: state.total_teams + 1,
+    waiting_queue: [...state.waiting_queue.slice(0, at), id, ...state.waiting_queue.slice(at)],
+    team_events: logTeamEvent(next, 'added', id, now, { note: `Joined at place ${at + 1} in the queue` })
+  }
+}
+
+// Takes the team out of the session; if it was playing, the match is abandoned
+// and the opponent goes back to the front of the queue
+export function withdrawTeam(state: GameState, team: number, now: number): GameState {
+  const status = teamStatus(state, team)
+  if (status === 'withdrawn') {
+    throw new RotationError(`${teamName(state, team)} has already left the session`)
+  }
+  if (state.total_teams <= MIN_REMAINING_TEAMS) {
+    throw new RotationError(`A session needs at least ${MIN_REMAINING_TEAMS} teams`)
+  }
+
+  let waitingQueue = state.waiting_queue.filter((t) => t !== team)
+  let pitches = clearStreak(state, team)
+  let note: string | undefined
+  const pitch = teamPitch(state, team)
+  if (status === 'playing' && pitch !== -1) {
+    const match = state.pitches[pitch].match!
+    const opponent = match.team1 === team ? match.team2 : match.team1
+    waitingQueue = [opponent, ...waitingQueue]
+    pitches = updatePitch({ pitches }, pitch, { match: null })
+    note = `Left during a match against ${teamName(state, opponent)}${onPitch(state, pitch)} — the match was abandoned`
+  }
+
+  return {
+    ...state,
+    total_teams: state.total_teams - 1,
+    pitches,
+    waiting_queue: waitingQueue,
+    benched: state.benched.filter((t) => t !== team),
+    draw_trackers: state.draw_trackers.filter((dt) => dt.team1 !== team && dt.team2 !== team),
+    team_events: logTeamEvent(state, 'withdrawn', team, now, { note })
+  }
+}
+
+// Benched teams keep their place in the queue but are skipped over
+export function benchTeam(state: GameState, team: number, now: number): GameState {
+  const status = teamStatus(state, team)
+  if (status === 'playing') {
+    throw new RotationError(`${teamName(state, team)} is playing — finish the match first`)
+  }
+  if (status !== 'waiting') {
+    throw new RotationError(`${teamName(state, team)} is not in the queue`)
+  }
+  return {
+    ...state,
+    benched: [...state.benched, team],
+    pitches: clearStreak(state, team),
+    team_events: logTeamEvent(state, 'benched', team, now)
+  }
+}
+
+export function returnTeam(state: GameState, team: number, now: number): GameState {
+  if (teamStatus(state, team) !== 'benched') {
+    throw new RotationError(`${teamName(state, team)} is not on the bench`)
+  }
+  return {
+    ...state,
+    benched: state.benched.filter((t) => t !== team),
+    team_events: logTeamEvent(state, 'returned', team, now)
+  }
+}
+
+function requireReason(reason: string): string {
+  const trimmed = reason.trim()
+  if (!trimmed) throw new RotationError('Please give a reason for changing the order')
+  return trimmed
+}
+
+// Drag-and-drop and "send to back" both come down to moving one team
+export function moveTeam(state: GameState, team: number, position: number, reason: string, now: number): GameState {
+  const from = state.waiting_queue.indexOf(team)
+  if (from === -1) {
+    throw new RotationError(`${teamName(state, team)} is not in the queue`)
+  }
+  const rest = state.waiting_queue.filter((t) => t !== team)
+  const to = Math.min(Math.max(0, Math.round(position)), rest.length)
+  if (to === from) return state
+  return {
+    ...state,
+    waiting_queue: [...rest.slice(0, to), team, ...rest.slice(to)],
+    team_events: logTeamEvent(state, 'moved', team, now, {
+      note: `From place ${from + 1} to ${to + 1}`,
+      reason: requireReason(reason)
+    })
+  }
+}
+
+// Put a waiting team on in place of one in the current match, which takes the
+// incoming team's place in the queue
+export function swapMatchTeam(
+  state: GameState,
+  pitch: number,
+  out: number,
+  incoming: number,
+  reason: string,
+  now: number
+): GameState {
+  const match = pitchMatch(state, pitch)
+  if (out !== match.team1 && out !== match.team2) {
+    throw new RotationError(`${teamName(state, out)} is not playing in this match`)
+  }
+  if (teamStatus(state, incoming) !== 'waiting') {
+    throw new RotationError(`${teamName(state, incoming)} is not waiting to play`)
+  }
+  if (match.goals.length > 0) {
+    throw new RotationError('Goals have already been scored — remove them before swapping teams')
+  }
+  const why = requireReason(reason)
+  const swapped = {
+    ...match,
+    team1: match.team1 === out ? incoming : match.team1,
+    team2: match.team2 === out ? incoming : match.team2
+  }
+  // A streak only carries while the same team stays on
+  const streak = state.pitches[pitch].streak
+  return {
+    ...state,
+    pitches: updatePitch(state, pitch, { match: swapped, streak: streak?.team === out ? null : streak }),
+    waiting_queue: state.waiting_queue.map((t) => (t === incoming ? out : t)),
+    team_events: logTeamEvent(state, 'swapped', incoming, now, { other: out, reason: why })
+  }
+}
+
+// Commands that only make sense when the rotation decides who plays next
+const ROTATION_ONLY: RotationCommand['type'][] = [
+  'add_team', 'withdraw_team', 'bench_team', 'return_team', 'move_team', 'swap_match_team'
+]
+
+export function applyCommand(state: GameState, command: RotationCommand): GameState {
+  if (state.format !== 'rotation' && ROTATION_ONLY.includes(command.type)) {
+    throw new RotationError(`The fixtures are fixed in a ${FORMATS[state.format].name.toLowerCase()} — teams can't be added, moved or taken out`)
+  }
+  switch (command.type) {
+    case 'start_next_match': {
+      const next = startNextMatch(state, command.now, command.pitch)
+      const pitch = command.pitch ?? freePitch(state)
+      const { team1, team2 } = next.pitches[pitch].match!
+      return pushUndo(state, next, `Start match${onPitch(state, pitch)}: ${teamName(state, team1)} vs ${teamName(state, team2)}`)
+    }
+    case 'record_result': {
+      const next = recordResult(state, command.pitch, command.result, command.now, command.penalties)
+      return pushUndo(state, next, `Result of match ${next.match_counter}`)
+    }
+    case 'undo':
+      if (state.undo_stack.length === 0) throw new RotationError('Nothing to undo')
+      return undo(state)
+    case 'redo':
+      if (state.redo_stack.length === 0) throw new RotationError('Nothing to redo')
+      return redo(state)
+    case 'record_goal':
+      return recordGoal(state, command.pitch, command.team, command.now, command.scorer)
+    case 'remove_goal':
+      return removeGoal(state, command.pitch, command.index)
+    case 'pause_clock':
+      return setClockPaused(state, command.pitch, true, command.now)
+    case 'resume_clock':
+      return setClockPaused(state, command.pitch, false, command.now)
+    case 'update_team':
+      return updateTeam(state, command.team)
+    case 'add_team': {
+      const next = addTeam(state, command.team, command.position, command.now)
+      return pushUndo(state, next, `Add ${next.teams[next.teams.length - 1].name}`)
+    }
+    case 'withdraw_team':
+      return pushUndo(state, withdrawTeam(state, command.team, command.now), `Withdraw ${teamName(state, command.team)}`)
+    case 'bench_team':
+      return pushUndo(state, benchTeam(state, command.team, command.now), `Bench ${teamName(state, command.team)}`)
+    case 'return_team':
+      return pushUndo(state, returnTeam(state, command.team, command.now), `Return ${teamName(state, command.team)}`)
+    case 'move_team': {
+      const next = moveTeam(state, command.team, command.position, command.reason, command.now)
+      return next === state ? state : pushUndo(state, next, `Move ${teamName(state, command.team)}`)
+    }
+    case 'swap_match_team': {
+      const next = swapMatchTeam(state, command.pitch, command.out, command.in, command.reason, command.now)
+      return pushUndo(state, next, `Swap ${teamName(state, command.in)} on for ${teamName(state, command.out)}`)
+    }
+  }
+}
+
+export function commandBasis(state: GameState): CommandBasis {
+  return {
+    match_counter: state.match_counter,
+    matches: state.pitches.map((p) => p.match),
+    undo_depth: state.undo_stack.length
+  }
+}
+
+export function sameBasis(a: CommandBasis | null, b: CommandBasis | null): boolean {
+  if (!a || !b) return a === b
+  return (
+    a.match_counter === b.match_counter &&
+    a.undo_depth === b.undo_depth &&
+    a.matches.length === b.matches.length &&
+    a.matches.every((match, i) => sameCurrentMatch(match, b.matches[i]) && match?.goals.length === b.matches[i]?.goals.length)
+  )
+}
+
+// Throw if the stored game has moved on since a wholesale save (new game,
+// import, end) was made against `basis`. A null basis saves regardless.
+export function assertFreshSave(state: GameState | null, basis: CommandBasis | null): void {
+  if (basis && !sameBasis(basis, state ? commandBasis(state) : null)) {
+    throw new StaleCommandError('The game was changed on another device')
+  }
+}
+
+// Commands that only touch one pitch's match, which can go ahead whatever
+// is happening on the other pitches
+const PITCH_COMMANDS: RotationCommand['type'][] = ['record_result', 'record_goal', 'remove_goal', 'swap_match_team']
+
+// Throw if `state` has moved on since the issuing device saw `basis`
+export function assertFreshCommand(state: GameState, command: RotationCommand, basis: CommandBasis): void {
+  // Roster edits don't depend on where the rotation has got to, and pausing
+  // or resuming twice is harmless
+  if (command.type === 'update_team' || command.type === 'pause_clock' || command.type === 'resume_clock') return
+  const pitch = 'pitch' in command ? command.pitch : undefined
+  const current = state.pitches.map((p) => p.match)
+  const moved = pitch !== undefined && PITCH_COMMANDS.includes(command.type)
+    ? !sameCurrentMatch(current[pitch], basis.matches[pitch]) ||
+      ((command.type === 'record_goal' || command.type === 'remove_goal') &&
+        current[pitch]?.goals.length !== basis.matches[pitch]?.goals.length)
+    : state.match_counter !== basis.match_counter ||
+      current.length !== basis.matches.length ||
+      current.some((match, i) => !sameCurrentMatch(match, basis.matches[i])) ||
+      ((command.type === 'undo' || command.type === 'redo') && state.undo_stack.length !== basis.undo_depth)
+  if (!moved) return
+  switch (command.type) {
+    case 'start_next_match':
+      throw new StaleCommandError('This match was already started by another device')
+    case 'record_result':
+      throw new StaleCommandError('This result was already recorded by another device')
+    case 'record_goal':
+      throw new StaleCommandError('A goal was just recorded by another device — check the score')
+    default:
+      throw new StaleCommandError('The game was changed by another device — please try again')
+  }
+}
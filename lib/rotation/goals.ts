@@ -0,0 +1,31 @@
+// lib/rotation/goals.ts
+import type { CurrentMatch, Goal, MatchResult, Score } from './types'
+
+export function scoreFromGoals(match: { team1: number; team2: number }, goals: Goal[]): Score {
+  return {
+    team1: goals.filter((g) => g.team === match.team1).length,
+    team2: goals.filter((g) => g.team === match.team2).length
+  }
+}
+
+export function resultFromScore(score: Score): MatchResult {
+  if (score.team1 > score.team2) return 'team1_win'
+  if (score.team2 > score.team1) return 'team2_win'
+  return 'draw'
+}
+
+export function currentScore(match: CurrentMatch): Score {
+  return scoreFromGoals(match, match.goals)
+}
+
+export function addGoal(match: CurrentMatch, goal: Goal): CurrentMatch {
+  // Leave an unknown scorer out entirely — Firestore rejects undefined values
+  const stored: Goal = { team: goal.team, time: Math.max(0, Math.round(goal.time)) }
+  if (goal.scorer?.trim()) stored.scorer = goal.scorer.trim()
+  const goals = [...match.goals, stored].sort((a, b) => a.time - b.time)
+  return { ...match, goals }
+}
+
+export function withoutGoal(match: CurrentMatch, index: number): CurrentMatch {
+  return { ...match, goals: match.goals.filter((_, i) => i !== index) }
+}
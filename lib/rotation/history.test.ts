@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest'
+import { GameState, MAX_UNDO_STEPS, applyCommand, createGameState, migrateGameState, validateGameState } from '.'
+import { finish, play, start, tick } from './testHelpers'
+
+describe('undo and redo', () => {
+  it('takes back a result and puts it back again', () => {
+    const before = play(createGameState(4), 'team1_win')
+    const after = play(before, 'draw')
+
+    const inPlay = applyCommand(after, { type: 'undo' })
+    expect(inPlay.pitches[0].match).toMatchObject({ team1: 1, team2: 3 })
+
+    const undone = applyCommand(inPlay, { type: 'undo' })
+    expect(undone.match_history).toEqual(before.match_history)
+    expect(undone.waiting_queue).toEqual(before.waiting_queue)
+    expect(undone.undone_history).toEqual([after.match_history[1]])
+
+    const redone = applyCommand(applyCommand(undone, { type: 'redo' }), { type: 'redo' })
+    expect(redone.match_history).toEqual(after.match_history)
+    expect(redone.waiting_queue).toEqual(after.waiting_queue)
+    expect(redone.draw_trackers).toEqual(after.draw_trackers)
+    expect(redone.undone_history).toEqual([])
+  })
+
+  it('puts team events back on redo', () => {
+    const added = applyCommand(createGameState(4), {
+      type: 'add_team',
+      team: { name: 'Late', color: '#fff', players: [] },
+      position: 4,
+      now: tick()
+    })
+    const undone = applyCommand(added, { type: 'undo' })
+    expect(undone.team_events).toEqual([])
+    expect(applyCommand(undone, { type: 'redo' }).team_events).toEqual(added.team_events)
+  })
+
+  it('drops a team added since, and brings it back with its edits on redo', () => {
+    const late = { name: 'Late', color: '#fff', players: [] }
+    const added = applyCommand(createGameState(4), { type: 'add_team', team: late, position: 4, now: tick() })
+    const edited = applyCommand(added, { type: 'update_team', team: { ...added.teams[4], players: ['Sam'] } })
+
+    const undone = applyCommand(edited, { type: 'undo' })
+    expect(undone.teams.map((t) => t.name)).toEqual(['Team 1', 'Team 2', 'Team 3', 'Team 4'])
+    expect(undone.waiting_queue).toEqual([1, 2, 3, 4])
+    expect(applyCommand(undone, { type: 'redo' }).teams[4]).toMatchObject({ name: 'Late', players: ['Sam'] })
+
+    const readded = applyCommand(undone, { type: 'add_team', team: late, position: 4, now: tick() })
+    expect(readded.teams[4]).toMatchObject({ id: 5, name: 'Late' })
+  })
+
+  it('keeps entries small however long the session runs', () => {
+    let state = createGameState(6)
+    for (let i = 0; i < 120; i++) state = play(state, i % 3 === 0 ? 'draw' : 'team1_win')
+    const entry = state.undo_stack[state.undo_stack.length - 1]
+    expect(entry).not.toHaveProperty('snapshot.match_history')
+    expect(entry.match_count).toBe(119)
+    expect(JSON.stringify(state.undo_stack).length).toBeLessThan(JSON.stringify(state.match_history).length)
+  })
+
+  it('stops keeping undone matches once they could never be redone', () => {
+    let state = createGameState(4)
+    for (let i = 0; i < MAX_UNDO_STEPS + 5; i++) {
+      state = applyCommand(applyCommand(play(state, 'team1_win'), { type: 'undo' }), { type: 'undo' })
+    }
+    expect(state.undone_history).toHaveLength(MAX_UNDO_STEPS)
+
+    const redone = applyCommand(applyCommand(state, { type: 'redo' }), { type: 'redo' })
+    expect(redone.match_history).toEqual([state.undone_history[MAX_UNDO_STEPS - 1]])
+  })
+})
+
+describe('undo with several pitches', () => {
+  it('keeps goals scored on another pitch since', () => {
+    let state = createGameState(6, undefined, undefined, 'rotation', 2)
+    state = start(start(state))
+    state = finish(state, 'team1_win')
+    state = applyCommand(state, { type: 'record_goal', pitch: 1, team: 3, now: tick() })
+    state = applyCommand(state, { type: 'pause_clock', pitch: 1, now: tick() })
+
+    const undone = applyCommand(state, { type: 'undo' })
+    expect(undone.pitches[0].match).toMatchObject({ team1: 1, team2: 2 })
+    expect(undone.pitches[1].match).toEqual(state.pitches[1].match)
+
+    const redone = applyCommand(undone, { type: 'redo' })
+    expect(redone.pitches[0].match).toBeNull()
+    expect(redone.pitches[1].match).toEqual(state.pitches[1].match)
+  })
+})
+
+describe('schema v3 undo entries', () => {
+  it('are compacted, keeping what redo needs', () => {
+    const played = play(play(createGameState(4), 'team1_win'), 'team2_win')
+    const undone = applyCommand(played, { type: 'undo' })
+    // How v3 stored them: each snapshot a copy of the whole rotation
+    const full = (entry: GameState['undo_stack'][number], state: GameState) => ({
+      label: entry.label,
+      snapshot: {
+        ...entry.snapshot,
+        schema_version: 3,
+        match_history: state.match_history.slice(0, entry.match_count).concat(entry.tail?.matches ?? []),
+        team_events: []
+      }
+    })
+    const v3 = {
+      ...undone,
+      schema_version: 3,
+      undo_stack: undone.undo_stack.map((entry) => full(entry, undone)),
+      redo_stack: undone.redo_stack.map((entry) => full(entry, undone))
+    }
+
+    const migrated = migrateGameState(v3) as GameState
+    expect(migrated.undo_stack).toEqual(undone.undo_stack)
+    expect(migrated.redo_stack).toEqual(undone.redo_stack)
+    expect(applyCommand(validateGameState(v3), { type: 'redo' }).match_history).toEqual(played.match_history)
+  })
+})
@@ -0,0 +1,104 @@
+// lib/rotation/history.ts
+// Undo/redo for match starts and recorded results. The stacks live inside the
+// GameState itself so they are persisted and shared like everything else.
+import type { GameState, HistoryEntry, HistoryTail, Match, Pitch, RotationSnapshot } from './types'
+import { sameCurrentMatch } from './pitches'
+
+// Every entry is saved with the session, so keep the stack short
+export const MAX_UNDO_STEPS = 20
+
+export function takeSnapshot(state: GameState): RotationSnapshot {
+  return {
+    format: state.format,
+    fixtures: state.fixtures,
+    total_teams: state.total_teams,
+    rules: state.rules,
+    settings: state.settings,
+    pitches: state.pitches,
+    waiting_queue: state.waiting_queue,
+    benched: state.benched,
+    match_counter: state.match_counter,
+    draw_trackers: state.draw_trackers
+  }
+}
+
+function historyEntry(label: string, state: GameState, tail?: HistoryTail): HistoryEntry {
+  return {
+    label,
+    snapshot: takeSnapshot(state),
+    match_count: state.match_history.length,
+    event_count: state.team_events.length,
+    team_count: state.teams.length,
+    ...(tail ? { tail } : {})
+  }
+}
+
+function sameMatch(a: Match, b: Match): boolean {
+  return a.match_number === b.match_number && a.team1 === b.team1 && a.team2 === b.team2
+}
+
+// Goals and clock changes aren't undo steps, so a match that's still being
+// played keeps them — otherwise undoing on one pitch would wipe what has
+// happened on the others since
+function keepLiveMatches(state: GameState, restored: Pitch[]): Pitch[] {
+  return restored.map((pitch, i) => {
+    const live = state.pitches[i]?.match
+    return live && sameCurrentMatch(live, pitch.match) ? { ...pitch, match: live } : pitch
+  })
+}
+
+// Record `before` as an undoable step leading to `after`; a fresh action clears redo
+export function pushUndo(before: GameState, after: GameState, label: string): GameState {
+  return {
+    ...after,
+    undo_stack: [...before.undo_stack, historyEntry(label, before)].slice(-MAX_UNDO_STEPS),
+    redo_stack: []
+  }
+}
+
+export function canUndo(state: GameState): boolean {
+  return state.undo_stack.length > 0
+}
+
+export function canRedo(state: GameState): boolean {
+  return state.redo_stack.length > 0
+}
+
+export function undo(state: GameState): GameState {
+  const entry = state.undo_stack[state.undo_stack.length - 1]
+  if (!entry) return state
+  const removed: HistoryTail = {
+    matches: state.match_history.slice(entry.match_count),
+    team_events: state.team_events.slice(entry.event_count),
+    teams: state.teams.slice(entry.team_count)
+  }
+  return {
+    ...state,
+    ...entry.snapshot,
+    pitches: keepLiveMatches(state, entry.snapshot.pitches),
+    match_history: state.match_history.slice(0, entry.match_count),
+    team_events: state.team_events.slice(0, entry.event_count),
+    teams: state.teams.slice(0, entry.team_count),
+    undo_stack: state.undo_stack.slice(0, -1),
+    redo_stack: [...state.redo_stack, historyEntry(entry.label, state, removed)],
+    // Only the last MAX_UNDO_STEPS can still be redone; older ones are just for show
+    undone_history: [...state.undone_history, ...removed.matches].slice(-MAX_UNDO_STEPS)
+  }
+}
+
+export function redo(state: GameState): GameState {
+  const entry = state.redo_stack[state.redo_stack.length - 1]
+  if (!entry) return state
+  const tail = entry.tail ?? { matches: [], team_events: [], teams: [] }
+  return {
+    ...state,
+    ...entry.snapshot,
+    pitches: keepLiveMatches(state, entry.snapshot.pitches),
+    match_history: [...state.match_history, ...tail.matches],
+    team_events: [...state.team_events, ...tail.team_events],
+    teams: [...state.teams, ...tail.teams],
+    undo_stack: [...state.undo_stack, historyEntry(entry.label, state)],
+    redo_stack: state.redo_stack.slice(0, -1),
+    undone_history: state.undone_history.filter(m => !tail.matches.some(r => sameMatch(r, m)))
+  }
+}
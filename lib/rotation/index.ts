@@ -0,0 +1,14 @@
+// lib/rotation/index.ts
+export * from './types'
+export * from './engine'
+export * from './history'
+export * from './teams'
+export * from './goals'
+export * from './rules'
+export * from './settings'
+export * from './clock'
+export * from './validate'
+export * from './migrations'
+export * from './availability'
+export * from './tournament'
+export * from './pitches'
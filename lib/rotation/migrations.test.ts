@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_RULES,
+  DEFAULT_SETTINGS,
+  SCHEMA_VERSION,
+  applyCommand,
+  defaultTeams,
+  loadGameState,
+  validateGameState
+} from '.'
+import { legacySessionDocument } from '../legacySession'
+
+// Saved before states were versioned: the app's first shape, plus the undo
+// stack that arrived before the version field did
+const v0 = {
+  total_teams: 4,
+  current_match: { team1: 1, team2: 3 },
+  waiting_queue: [4, 2],
+  match_history: [{ match_number: 1, team1: 1, team2: 2, result: 'team1_win', duration: '07:12' }],
+  match_counter: 1,
+  draw_trackers: [],
+  undo_stack: [
+    {
+      label: 'Start match 2',
+      snapshot: {
+        total_teams: 4,
+        current_match: null,
+        waiting_queue: [1, 3, 4, 2],
+        match_history: [{ match_number: 1, team1: 1, team2: 2, result: 'team1_win', duration: '07:12' }],
+        match_counter: 1,
+        draw_trackers: []
+      }
+    }
+  ],
+  redo_stack: []
+}
+
+const match = { team1: 1, team2: 3, goals: [], clock: { started_at: 1000, paused_at: null, paused_ms: 0 } }
+
+// One feature-complete rotation session, as each later version stored it
+const v1 = {
+  schema_version: 1,
+  total_teams: 4,
+  teams: defaultTeams(4),
+  rules: DEFAULT_RULES,
+  settings: DEFAULT_SETTINGS,
+  current_match: match,
+  streak: { team: 1, matches: 1, wins: 1 },
+  waiting_queue: [4, 2],
+  benched: [],
+  match_history: [{ match_number: 1, team1: 1, team2: 2, result: 'team1_win' }],
+  match_counter: 1,
+  draw_trackers: [],
+  team_events: [],
+  undo_stack: [],
+  redo_stack: [],
+  undone_history: []
+}
+const v2 = { ...v1, schema_version: 2, format: 'rotation', fixtures: [] }
+
+describe('migrations', () => {
+  it('fills in everything a v0 game is missing', () => {
+    const state = validateGameState(v0)
+    expect(state).toMatchObject({
+      schema_version: SCHEMA_VERSION,
+      format: 'rotation',
+      fixtures: [],
+      rules: DEFAULT_RULES,
+      settings: DEFAULT_SETTINGS,
+      teams: defaultTeams(4),
+      benched: [],
+      team_events: [],
+      undone_history: []
+    })
+    expect(state.pitches).toHaveLength(1)
+    expect(state.pitches[0]).toMatchObject({ match: { team1: 1, team2: 3, goals: [] }, streak: null })
+    // Matches started before the clock was stored restart it
+    expect(state.pitches[0].match?.clock).toMatchObject({ paused_at: null, paused_ms: 0 })
+  })
+
+  it('upgrades a v0 undo entry so undoing it brings back the current shape', () => {
+    const state = validateGameState(v0)
+    expect(state.undo_stack[0]).toMatchObject({ label: 'Start match 2', match_count: 1, event_count: 0, team_count: 4 })
+    const undone = applyCommand(state, { type: 'undo' })
+    expect(undone.pitches).toEqual([{ match: null, streak: null }])
+    expect(undone.waiting_queue).toEqual([1, 3, 4, 2])
+    expect(undone.rules).toEqual(DEFAULT_RULES)
+  })
+
+  it('makes a v1 game a rotation with no fixtures', () => {
+    expect(validateGameState(v1)).toMatchObject({ format: 'rotation', fixtures: [] })
+  })
+
+  it('turns a v2 current match and streak into the only pitch', () => {
+    const state = validateGameState(v2)
+    expect(state.pitches).toEqual([{ match, streak: { team: 1, matches: 1, wins: 1 } }])
+    expect(state).not.toHaveProperty('current_match')
+    expect(state).not.toHaveProperty('streak')
+  })
+
+  it('reports what is wrong with an old game it can\'t upgrade', () => {
+    expect(() => validateGameState({ ...v0, waiting_queue: 'not a queue' })).toThrow('waiting_queue must be a list')
+  })
+})
+
+describe('the empty game ending used to leave behind', () => {
+  const ended = { total_teams: 0, current_match: null, waiting_queue: [], match_history: [], match_counter: 0, draw_trackers: [] }
+
+  it('loads as no game at all', () => {
+    expect(loadGameState(ended)).toBeNull()
+  })
+
+  it('isn\'t moved into a session of its own', () => {
+    expect(legacySessionDocument(ended, 'ABC234', 'device-1')).toBeNull()
+  })
+})
@@ -0,0 +1,128 @@
+// lib/rotation/migrations.ts
+// Brings GameStates saved by older versions of the app up to the current shape.
+// Each step only knows the shape it upgrades from, so steps never change once
+// released — a new shape means a new step.
+import { SCHEMA_VERSION } from './engine'
+import { DEFAULT_RULES } from './rules'
+import { DEFAULT_SETTINGS } from './settings'
+import { defaultTeams } from './teams'
+import { startClock } from './clock'
+
+type StoredState = Record<string, unknown>
+type StoredMatch = { goals?: unknown[]; clock?: unknown } | null | undefined
+
+// Undo/redo restores snapshots wholesale, so they need the same upgrade as
+// the state itself or an undo would bring back the old shape
+const updateSnapshots = (entries: unknown, update: (snapshot: StoredState) => StoredState) =>
+  (entries as { snapshot: StoredState }[]).map((entry) => ({ ...entry, snapshot: update(entry.snapshot) }))
+
+// MIGRATIONS[n] takes a state at version n to version n + 1
+const MIGRATIONS: ((state: StoredState) => StoredState)[] = [
+  // 0 → 1: everything from before states were versioned. Fields were added
+  // one feature at a time, so fill in whichever are missing.
+  (stored) => {
+    const withDefaults = (s: StoredState) => ({
+      ...s,
+      rules: s.rules ?? DEFAULT_RULES,
+      settings: s.settings ?? DEFAULT_SETTINGS,
+      streak: s.streak ?? null,
+      benched: s.benched ?? [],
+      team_events: s.team_events ?? []
+    })
+    const current = stored.current_match as StoredMatch
+    return {
+      ...withDefaults(stored),
+      schema_version: 1,
+      teams: stored.teams ?? defaultTeams(stored.total_teams as number),
+      current_match: current
+        ? {
+            ...current,
+            goals: current.goals ?? [],
+            // Matches started before the clock was stored restart from now
+            clock: current.clock ?? startClock(Date.now())
+          }
+        : null,
+      undo_stack: updateSnapshots(stored.undo_stack ?? [], withDefaults),
+      redo_stack: updateSnapshots(stored.redo_stack ?? [], withDefaults),
+      undone_history: stored.undone_history ?? []
+    }
+  },
+  // 1 → 2: round robin and knockout formats. Everything before was rotation.
+  (stored) => {
+    const asRotation = (s: StoredState) => ({ ...s, format: 'rotation', fixtures: [] })
+    return {
+      ...asRotation(stored),
+      schema_version: 2,
+      undo_stack: updateSnapshots(stored.undo_stack, asRotation),
+      redo_stack: updateSnapshots(stored.redo_stack, asRotation)
+    }
+  },
+  // 2 → 3: several pitches. The single current match and streak become the
+  // only pitch.
+  (stored) => {
+    const onePitch = ({ current_match, streak, ...rest }: StoredState) => ({
+      ...rest,
+      pitches: [{ match: current_match ?? null, streak: streak ?? null }]
+    })
+    return {
+      ...onePitch(stored),
+      schema_version: 3,
+      undo_stack: updateSnapshots(stored.undo_stack, onePitch),
+      redo_stack: updateSnapshots(stored.redo_stack, onePitch)
+    }
+  },
+  // 3 → 4: undo entries stop copying the match history and team events, and
+  // keep their lengths instead. Redo entries keep what the undo took off.
+  // Teams weren't part of a snapshot, so older entries keep every team.
+  (stored) => {
+    const history = stored.match_history as unknown[]
+    const events = stored.team_events as unknown[]
+    const teams = stored.teams as unknown[]
+    const compact = (entries: unknown, redo: boolean) =>
+      (entries as { label: string; snapshot: StoredState }[]).map(({ label, snapshot }) => {
+        const matches = snapshot.match_history as unknown[]
+        const teamEvents = snapshot.team_events as unknown[]
+        return {
+          label,
+          snapshot: {
+            format: snapshot.format,
+            fixtures: snapshot.fixtures,
+            total_teams: snapshot.total_teams,
+            rules: snapshot.rules,
+            settings: snapshot.settings,
+            pitches: snapshot.pitches,
+            waiting_queue: snapshot.waiting_queue,
+            benched: snapshot.benched,
+            match_counter: snapshot.match_counter,
+            draw_trackers: snapshot.draw_trackers
+          },
+          match_count: matches.length,
+          event_count: teamEvents.length,
+          team_count: teams.length,
+          ...(redo
+            ? { tail: { matches: matches.slice(history.length), team_events: teamEvents.slice(events.length), teams: [] } }
+            : {})
+        }
+      })
+    return {
+      ...stored,
+      schema_version: 4,
+      undo_stack: compact(stored.undo_stack, false),
+      redo_stack: compact(stored.redo_stack, true)
+    }
+  }
+]
+
+export function schemaVersion(value: StoredState): number {
+  return typeof value.schema_version === 'number' ? value.schema_version : 0
+}
+
+// Anything that isn't an object is passed through for validation to reject
+export function migrateGameState(value: unknown): unknown {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return value
+  let state = value as StoredState
+  for (let version = schemaVersion(state); version < SCHEMA_VERSION; version++) {
+    state = MIGRATIONS[version](state)
+  }
+  return state
+}
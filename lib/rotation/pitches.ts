@@ -0,0 +1,49 @@
+// lib/rotation/pitches.ts
+// Running several matches at once from one queue
+import type { CurrentMatch, GameState, Pitch } from './types'
+
+export const MAX_PITCHES = 4
+
+export function emptyPitches(count: number): Pitch[] {
+  return Array.from({ length: count }, () => ({ match: null, streak: null }))
+}
+
+export function activeMatches(state: Pick<GameState, 'pitches'>): { pitch: number; match: CurrentMatch }[] {
+  return state.pitches.flatMap((p, pitch) => (p.match ? [{ pitch, match: p.match }] : []))
+}
+
+export function playingTeams(state: Pick<GameState, 'pitches'>): number[] {
+  return activeMatches(state).flatMap(({ match }) => [match.team1, match.team2])
+}
+
+export function teamPitch(state: Pick<GameState, 'pitches'>, team: number): number {
+  return state.pitches.findIndex((p) => p.match !== null && (p.match.team1 === team || p.match.team2 === team))
+}
+
+export function freePitch(state: Pick<GameState, 'pitches'>): number {
+  return state.pitches.findIndex((p) => p.match === null)
+}
+
+export function updatePitch(state: Pick<GameState, 'pitches'>, pitch: number, changes: Partial<Pitch>): Pitch[] {
+  return state.pitches.map((p, i) => (i === pitch ? { ...p, ...changes } : p))
+}
+
+// The kick-off time tells a rematch of the same two teams apart
+export function sameCurrentMatch(a: CurrentMatch | null | undefined, b: CurrentMatch | null | undefined): boolean {
+  if (!a || !b) return !a && !b
+  return a.team1 === b.team1 && a.team2 === b.team2 && a.clock.started_at === b.clock.started_at
+}
+
+// A team can only be kept on one pitch at a time
+export function clearStreak(state: Pick<GameState, 'pitches'>, team: number): Pitch[] {
+  return state.pitches.map((p) => (p.streak?.team === team ? { ...p, streak: null } : p))
+}
+
+export function pitchName(state: Pick<GameState, 'pitches'>, pitch: number): string {
+  return state.pitches.length > 1 ? `Pitch ${pitch + 1}` : 'Current Match'
+}
+
+// " on pitch 2" for messages, or nothing when there's only the one
+export function onPitch(state: Pick<GameState, 'pitches'>, pitch: number): string {
+  return state.pitches.length > 1 ? ` on pitch ${pitch + 1}` : ''
+}
@@ -0,0 +1,138 @@
+// lib/rotation/rules.ts
+// Where the two teams go after a match, under each of the supported rule sets
+import type { DrawTracker, GameState, MatchResult, RuleSet, RuleSetId, Streak } from './types'
+import { teamName } from './teams'
+
+export const DEFAULT_MAX_WINS = 3
+
+export const DEFAULT_RULES: RuleSet = { id: 'classic' }
+
+export const RULE_SETS: Record<RuleSetId, { name: string; description: string }> = {
+  classic: {
+    name: 'Winner stays',
+    description: 'Winner stays on, loser to the back. On a draw both teams go off, taking turns at who goes first.'
+  },
+  winner_capped: {
+    name: 'Winner stays (capped)',
+    description: 'Winner stays on, but after a set number of wins in a row both teams go off.'
+  },
+  longest_on_leaves: {
+    name: 'Longest on leaves',
+    description: 'Winner stays on, loser to the back. On a draw the team that has been on longest goes off.'
+  },
+  everyone_plays: {
+    name: 'Everyone plays',
+    description: 'Both teams go to the back after every match, so every team plays once before anyone repeats.'
+  }
+}
+
+// Keep only the options that apply to the chosen rule set
+export function cleanRuleSet(rules: RuleSet): RuleSet {
+  if (rules.id !== 'winner_capped') return { id: rules.id }
+  return { id: rules.id, max_wins: Math.max(1, Math.round(rules.max_wins ?? DEFAULT_MAX_WINS)) }
+}
+
+export function describeRules(rules: RuleSet): string {
+  const name = RULE_SETS[rules.id].name
+  return rules.id === 'winner_capped' ? `${name} — max ${rules.max_wins ?? DEFAULT_MAX_WINS} wins` : name
+}
+
+/**
+ * Decide which of two drawing teams goes back into the queue first.
+ * The first draw between a pair sends the lower-numbered team first; every
+ * later draw between the same pair alternates.
+ */
+export function resolveDrawOrder(
+  trackers: DrawTracker[],
+  team1: number,
+  team2: number
+): { first: number; second: number; draw_trackers: DrawTracker[] } {
+  const trackerIndex = trackers.findIndex(
+    dt => (dt.team1 === team1 && dt.team2 === team2) ||
+          (dt.team1 === team2 && dt.team2 === team1)
+  )
+  if (trackerIndex === -1) {
+    const lowerTeam = Math.min(team1, team2)
+    const higherTeam = Math.max(team1, team2)
+    return {
+      first: lowerTeam,
+      second: higherTeam,
+      draw_trackers: [...trackers, { team1: lowerTeam, team2: higherTeam, nextToPlay: higherTeam }]
+    }
+  }
+  const tracker = trackers[trackerIndex]
+  const first = tracker.nextToPlay
+  const second = first === tracker.team1 ? tracker.team2 : tracker.team1
+  const updated: DrawTracker = { ...tracker, nextToPlay: second }
+  return {
+    first,
+    second,
+    draw_trackers: trackers.map((dt, i) => (i === trackerIndex ? updated : dt))
+  }
+}
+
+export interface Placement {
+  waiting_queue: number[]
+  draw_trackers: DrawTracker[]
+  streak: Streak | null
+  note?: string
+}
+
+// `streak` is the pitch's: who was kept on there for this match
+export function placeTeams(
+  state: GameState,
+  streak: Streak | null,
+  team1: number,
+  team2: number,
+  result: MatchResult
+): Placement {
+  const { rules, waiting_queue: queue, draw_trackers } = state
+  // The streak only counts if that team stayed on for this match
+  const carried = (team: number) => (streak?.team === team ? streak : null)
+
+  if (result === 'draw') {
+    if (rules.id === 'longest_on_leaves') {
+      const onLongest = carried(team1) ?? carried(team2)
+      if (onLongest) {
+        const staying = onLongest.team === team1 ? team2 : team1
+        return {
+          waiting_queue: [staying, ...queue, onLongest.team],
+          draw_trackers,
+          streak: { team: staying, matches: 1, wins: 0 },
+          note: `Draw — ${teamName(state, onLongest.team)} had been on longest and goes off`
+        }
+      }
+      // Both came on together: take turns at who stays
+      const order = resolveDrawOrder(draw_trackers, team1, team2)
+      return {
+        waiting_queue: [order.first, ...queue, order.second],
+        draw_trackers: order.draw_trackers,
+        streak: { team: order.first, matches: 1, wins: 0 }
+      }
+    }
+    const order = resolveDrawOrder(draw_trackers, team1, team2)
+    return { waiting_queue: [...queue, order.first, order.second], draw_trackers: order.draw_trackers, streak: null }
+  }
+
+  const [winner, loser] = result === 'team1_win' ? [team1, team2] : [team2, team1]
+  if (rules.id === 'everyone_plays') {
+    return { waiting_queue: [...queue, winner, loser], draw_trackers, streak: null }
+  }
+
+  const previous = carried(winner)
+  const kept: Streak = {
+    team: winner,
+    matches: (previous?.matches ?? 0) + 1,
+    wins: (previous?.wins ?? 0) + 1
+  }
+  const maxWins = rules.max_wins ?? DEFAULT_MAX_WINS
+  if (rules.id === 'winner_capped' && kept.wins >= maxWins) {
+    return {
+      waiting_queue: [...queue, loser, winner],
+      draw_trackers,
+      streak: null,
+      note: `${teamName(state, winner)} reached ${maxWins} wins in a row — both teams off`
+    }
+  }
+  return { waiting_queue: [winner, ...queue, loser], draw_trackers, streak: kept }
+}
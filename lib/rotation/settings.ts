@@ -0,0 +1,40 @@
+// lib/rotation/settings.ts
+import type { CurrentMatch, MatchSettings } from './types'
+import { currentScore } from './goals'
+
+export const DEFAULT_SETTINGS: MatchSettings = {
+  match_minutes: null,
+  goal_limit: null,
+  auto_prompt: false
+}
+
+function positiveOrNull(value: number | null): number | null {
+  return value !== null && value > 0 ? Math.round(value) : null
+}
+
+export function cleanSettings(settings: MatchSettings): MatchSettings {
+  return {
+    match_minutes: positiveOrNull(settings.match_minutes),
+    goal_limit: positiveOrNull(settings.goal_limit),
+    auto_prompt: settings.auto_prompt
+  }
+}
+
+export function matchLengthSeconds(settings: MatchSettings): number | null {
+  return settings.match_minutes !== null ? settings.match_minutes * 60 : null
+}
+
+// Why the match is over, if it is: the time ran out or a team hit the goal limit
+export function fullTimeReason(
+  settings: MatchSettings,
+  match: CurrentMatch,
+  elapsedSeconds: number
+): 'time' | 'goals' | null {
+  const limit = matchLengthSeconds(settings)
+  if (settings.goal_limit !== null) {
+    const score = currentScore(match)
+    if (Math.max(score.team1, score.team2) >= settings.goal_limit) return 'goals'
+  }
+  if (limit !== null && elapsedSeconds >= limit) return 'time'
+  return null
+}
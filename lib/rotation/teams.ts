@@ -0,0 +1,38 @@
+// lib/rotation/teams.ts
+import type { GameState, Team } from './types'
+
+// Bib colours offered when setting up teams; cycled for the defaults
+export const TEAM_COLORS = [
+  '#00ff88', '#ff4d4d', '#4da6ff', '#ffd24d', '#c77dff',
+  '#ff8c42', '#2ee6d6', '#ff66c4', '#a3e635', '#f5f5f5'
+]
+
+export function defaultTeam(id: number): Team {
+  return {
+    id,
+    name: `Team ${id}`,
+    color: TEAM_COLORS[(id - 1) % TEAM_COLORS.length],
+    players: []
+  }
+}
+
+export function defaultTeams(count: number): Team[] {
+  return Array.from({ length: count }, (_, i) => defaultTeam(i + 1))
+}
+
+export function findTeam(state: Pick<GameState, 'teams'>, id: number): Team {
+  return state.teams.find((t) => t.id === id) ?? defaultTeam(id)
+}
+
+export function teamName(state: Pick<GameState, 'teams'>, id: number): string {
+  return findTeam(state, id).name
+}
+
+// Trim names and drop blank roster lines so stored teams stay tidy
+export function cleanTeam(team: Team): Team {
+  return {
+    ...team,
+    name: team.name.trim() || `Team ${team.id}`,
+    players: team.players.map((p) => p.trim()).filter(Boolean)
+  }
+}
@@ -0,0 +1,23 @@
+// lib/rotation/testHelpers.ts
+// Shared by the engine's tests: plays matches without caring about the clock
+import { applyCommand } from './engine'
+import type { GameState, MatchResult } from './types'
+
+let clock = 0
+
+// A later `now` for every command, so clocks and events stay in order
+export function tick(): number {
+  return ++clock
+}
+
+export function start(state: GameState): GameState {
+  return applyCommand(state, { type: 'start_next_match', now: tick() })
+}
+
+export function finish(state: GameState, result: MatchResult, pitch = 0): GameState {
+  return applyCommand(state, { type: 'record_result', pitch, result, now: tick() })
+}
+
+export function play(state: GameState, result: MatchResult): GameState {
+  return finish(start(state), result)
+}
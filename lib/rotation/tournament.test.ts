@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest'
+import {
+  Fixture,
+  GameState,
+  applyCommand,
+  createGameState,
+  isBye,
+  knockoutChampion,
+  knockoutFixtures,
+  roundName,
+  roundRobinFixtures,
+  tieWinner,
+  tournamentComplete
+} from '.'
+import { finish, play, start, tick } from './testHelpers'
+
+const pairs = (fixtures: Fixture[]) => fixtures.map((f) => [f.team1, f.team2].sort().join('v'))
+
+describe('roundRobinFixtures', () => {
+  it('has every team play every other once, and nobody twice in a round', () => {
+    const fixtures = roundRobinFixtures([1, 2, 3, 4])
+    expect(new Set(pairs(fixtures))).toEqual(new Set(['1v2', '1v3', '1v4', '2v3', '2v4', '3v4']))
+    for (const round of [1, 2, 3]) {
+      const teams = fixtures.filter((f) => f.round === round).flatMap((f) => [f.team1, f.team2])
+      expect(teams.sort()).toEqual([1, 2, 3, 4])
+    }
+  })
+
+  it('rests a different team each round when the number is odd', () => {
+    const fixtures = roundRobinFixtures([1, 2, 3, 4, 5])
+    expect(fixtures).toHaveLength(10)
+    const resting = [1, 2, 3, 4, 5].map((round) => {
+      const playing = fixtures.filter((f) => f.round === round).flatMap((f) => [f.team1, f.team2])
+      return [1, 2, 3, 4, 5].find((team) => !playing.includes(team))
+    })
+    expect(resting.sort()).toEqual([1, 2, 3, 4, 5])
+  })
+
+  it('switches the fixed team\'s side each round', () => {
+    const firstOfRound = roundRobinFixtures([1, 2, 3, 4]).filter((f) => f.team1 === 1 || f.team2 === 1)
+    expect(firstOfRound.map((f) => f.team1 === 1)).toEqual([true, false, true])
+  })
+})
+
+describe('knockoutFixtures', () => {
+  it('keeps the top two seeds apart until the final', () => {
+    const fixtures = knockoutFixtures([1, 2, 3, 4])
+    expect(fixtures).toEqual([
+      { round: 1, team1: 1, team2: 4 },
+      { round: 1, team1: 2, team2: 3 },
+      { round: 2, team1: null, team2: null }
+    ])
+  })
+
+  it('gives the top seeds byes straight into the next round', () => {
+    const fixtures = knockoutFixtures([1, 2, 3, 4, 5, 6])
+    const byes = fixtures.filter(isBye)
+    expect(byes.map((f) => f.winner)).toEqual([1, 2])
+    const semis = fixtures.filter((f) => f.round === 2)
+    expect(semis.flatMap((f) => [f.team1, f.team2])).toEqual([1, null, 2, null])
+    expect(fixtures.filter((f) => f.round === 1 && !isBye(f)).map((f) => [f.team1, f.team2])).toEqual([[4, 5], [3, 6]])
+  })
+})
+
+describe('knockout sessions', () => {
+  const knockout = () => createGameState(4, undefined, undefined, 'knockout')
+
+  it('won\'t take a draw without a shootout, or a shootout that ends level', () => {
+    const state = start(knockout())
+    expect(() => finish(state, 'draw')).toThrow('enter the penalty shootout score')
+    expect(() =>
+      applyCommand(state, { type: 'record_result', pitch: 0, result: 'draw', penalties: { team1: 3, team2: 3 }, now: tick() })
+    ).toThrow('can\'t finish level')
+  })
+
+  it('sends the shootout winner through and notes how', () => {
+    const state = applyCommand(start(knockout()), {
+      type: 'record_result',
+      pitch: 0,
+      result: 'draw',
+      penalties: { team1: 2, team2: 4 },
+      now: tick()
+    })
+    expect(state.match_history[0]).toMatchObject({ penalties: { team1: 2, team2: 4 }, note: 'Team 4 won 4–2 on penalties' })
+    expect(state.fixtures[0].winner).toBe(4)
+    expect(state.fixtures[2]).toMatchObject({ team1: 4, team2: null })
+    expect(state.waiting_queue).toEqual([2, 3, 4])
+  })
+
+  it('crowns the winner of the final', () => {
+    let state: GameState = knockout()
+    state = play(state, 'team1_win') // 1 beats 4
+    state = play(state, 'team2_win') // 3 beats 2
+    expect(roundName(state, 2)).toBe('Final')
+    expect(tournamentComplete(state)).toBe(false)
+    state = play(state, 'team2_win') // 3 beats 1
+    expect(knockoutChampion(state.fixtures)).toBe(3)
+    expect(tournamentComplete(state)).toBe(true)
+    expect(state.match_history[2].note).toBe('Team 3 win the tournament')
+  })
+
+  it('refuses penalties outside a knockout', () => {
+    const state = start(createGameState(4))
+    expect(() =>
+      applyCommand(state, { type: 'record_result', pitch: 0, result: 'draw', penalties: { team1: 1, team2: 0 }, now: tick() })
+    ).toThrow('Penalties only settle a knockout tie')
+  })
+})
+
+describe('round robin sessions', () => {
+  it('plays the fixtures in order and finishes once they\'re all played', () => {
+    let state: GameState = createGameState(3, undefined, undefined, 'round_robin')
+    const expected = roundRobinFixtures([1, 2, 3]).map((f) => [f.team1, f.team2])
+    for (const [team1, team2] of expected) {
+      state = start(state)
+      expect(state.pitches[0].match).toMatchObject({ team1, team2 })
+      state = finish(state, 'draw')
+    }
+    expect(tournamentComplete(state)).toBe(true)
+    expect(roundName(state, 2)).toBe('Round 2')
+  })
+})
+
+describe('tieWinner', () => {
+  it('takes the result, or the shootout when the tie was level', () => {
+    expect(tieWinner({ team1: 1, team2: 2, result: 'team2_win' })).toBe(2)
+    expect(tieWinner({ team1: 1, team2: 2, result: 'draw', penalties: { team1: 5, team2: 4 } })).toBe(1)
+    expect(tieWinner({ team1: 1, team2: 2, result: 'draw' })).toBeNull()
+  })
+})
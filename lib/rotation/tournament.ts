@@ -0,0 +1,183 @@
+// lib/rotation/tournament.ts
+// Round robin and knockout: the fixtures are worked out up front, so instead
+// of the rotation rules choosing who plays next, the next fixture does
+import type { Fixture, GameState, Match, SessionFormat } from './types'
+import { Placement, describeRules } from './rules'
+import { availableQueue } from './availability'
+import { playingTeams } from './pitches'
+import { teamName } from './teams'
+
+export const FORMATS: Record<SessionFormat, { name: string; description: string }> = {
+  rotation: {
+    name: 'Rotation',
+    description: 'Open-ended play: teams queue up and the rotation rules decide who plays next.'
+  },
+  round_robin: {
+    name: 'Round robin',
+    description: 'Every team plays every other team once, and the table at the end decides the winner.'
+  },
+  knockout: {
+    name: 'Knockout',
+    description: 'A bracket seeded in team order — lose and you\'re out. Level ties go to penalties.'
+  }
+}
+
+// Circle method: one team stays put while the rest turn a place each round.
+// With an odd number of teams the gap in the circle is that round's rest.
+export function roundRobinFixtures(teams: number[]): Fixture[] {
+  const circle: (number | null)[] = teams.length % 2 === 0 ? [...teams] : [...teams, null]
+  const fixtures: Fixture[] = []
+  for (let round = 1; round < circle.length; round++) {
+    for (let i = 0; i < circle.length / 2; i++) {
+      const home = circle[i]
+      const away = circle[circle.length - 1 - i]
+      if (home === null || away === null) continue
+      // The fixed team swaps sides each round so it isn't always listed first
+      fixtures.push(i === 0 && round % 2 === 0 ? { round, team1: away, team2: home } : { round, team1: home, team2: away })
+    }
+    circle.splice(1, 0, circle.pop()!)
+  }
+  return fixtures
+}
+
+// Seed numbers in bracket order, so the top two seeds can only meet in the final
+function bracketOrder(size: number): number[] {
+  let order = [1]
+  while (order.length < size) {
+    const seeds = order.length * 2
+    order = order.flatMap((seed) => [seed, seeds + 1 - seed])
+  }
+  return order
+}
+
+// `seeds` is best first. Short of a power of two, the top seeds get byes.
+export function knockoutFixtures(seeds: number[]): Fixture[] {
+  let size = 2
+  while (size < seeds.length) size *= 2
+  const order = bracketOrder(size)
+  let fixtures: Fixture[] = []
+  for (let i = 0; i < size; i += 2) {
+    fixtures.push({ round: 1, team1: seeds[order[i] - 1] ?? null, team2: seeds[order[i + 1] - 1] ?? null })
+  }
+  for (let round = 2, ties = size / 4; ties >= 1; round++, ties /= 2) {
+    for (let i = 0; i < ties; i++) fixtures.push({ round, team1: null, team2: null })
+  }
+  fixtures.forEach((fixture, index) => {
+    if (fixture.round === 1 && (fixture.team1 === null || fixture.team2 === null)) {
+      fixtures = advance(fixtures, index, (fixture.team1 ?? fixture.team2)!)
+    }
+  })
+  return fixtures
+}
+
+// Record the winner of a knockout tie and put them into the next round
+function advance(fixtures: Fixture[], index: number, winner: number): Fixture[] {
+  const fixture = fixtures[index]
+  const position = fixtures.slice(0, index).filter((f) => f.round === fixture.round).length
+  const next = fixtures.filter((f) => f.round === fixture.round + 1)[Math.floor(position / 2)]
+  return fixtures.map((f) => {
+    if (f === fixture) return { ...f, winner }
+    if (f === next) return position % 2 === 0 ? { ...f, team1: winner } : { ...f, team2: winner }
+    return f
+  })
+}
+
+export function describeFormat(state: Pick<GameState, 'format' | 'rules'>): string {
+  return state.format === 'rotation' ? describeRules(state.rules) : FORMATS[state.format].name
+}
+
+// A first-round place in a knockout with nobody to play
+export function isBye(fixture: Fixture): boolean {
+  return (fixture.team1 === null || fixture.team2 === null) && fixture.winner !== undefined
+}
+
+export function createFixtures(format: SessionFormat, teams: number[]): Fixture[] {
+  if (format === 'round_robin') return roundRobinFixtures(teams)
+  if (format === 'knockout') return knockoutFixtures(teams)
+  return []
+}
+
+const decided = (fixture: Fixture) => fixture.match_number !== undefined || fixture.winner !== undefined
+
+// The first fixture with both teams known that hasn't been played, and whose
+// teams aren't busy on another pitch
+export function nextFixtureIndex(state: Pick<GameState, 'fixtures' | 'pitches'>): number {
+  const busy = playingTeams(state)
+  return state.fixtures.findIndex(
+    (f) => f.team1 !== null && f.team2 !== null && !decided(f) && !busy.includes(f.team1) && !busy.includes(f.team2)
+  )
+}
+
+// The unplayed fixture between these two teams
+export function fixtureIndexFor(fixtures: Fixture[], team1: number, team2: number): number {
+  return fixtures.findIndex((f) => !decided(f) && [f.team1, f.team2].includes(team1) && [f.team1, f.team2].includes(team2))
+}
+
+export function tournamentComplete(state: Pick<GameState, 'format' | 'fixtures'>): boolean {
+  return state.format !== 'rotation' && state.fixtures.every(decided)
+}
+
+export function knockoutChampion(fixtures: Fixture[]): number | null {
+  return fixtures[fixtures.length - 1]?.winner ?? null
+}
+
+// Who plays when "Get Next Match" is pressed for `pitch`, in either kind of
+// session. A winner kept on another free pitch is left for that pitch.
+export function nextPairing(state: GameState, pitch: number): [number, number] | null {
+  if (state.format === 'rotation') {
+    const keptElsewhere = state.pitches
+      .filter((p, i) => i !== pitch && p.match === null && p.streak)
+      .map((p) => p.streak!.team)
+    const [team1, team2] = availableQueue(state).filter((team) => !keptElsewhere.includes(team))
+    return team2 === undefined ? null : [team1, team2]
+  }
+  const fixture = state.fixtures[nextFixtureIndex(state)]
+  return fixture ? [fixture.team1!, fixture.team2!] : null
+}
+
+// The team that won or went through, counting a penalty shootout
+export function tieWinner(match: Pick<Match, 'team1' | 'team2' | 'result' | 'penalties'>): number | null {
+  if (match.result === 'team1_win') return match.team1
+  if (match.result === 'team2_win') return match.team2
+  if (match.penalties) return match.penalties.team1 > match.penalties.team2 ? match.team1 : match.team2
+  return null
+}
+
+export function roundName(state: Pick<GameState, 'format' | 'fixtures'>, round: number): string {
+  if (state.format === 'knockout') {
+    const rounds = state.fixtures[state.fixtures.length - 1]?.round ?? round
+    if (round === rounds) return 'Final'
+    if (round === rounds - 1) return 'Semi-finals'
+    if (round === rounds - 2) return 'Quarter-finals'
+  }
+  return `Round ${round}`
+}
+
+// The tournament's version of placeTeams: tick off the fixture, and in a
+// knockout only the winner goes back into the pool
+export function placeFixtureTeams(state: GameState, match: Match): Placement & { fixtures: Fixture[] } {
+  const index = fixtureIndexFor(state.fixtures, match.team1, match.team2)
+  const winner = tieWinner(match)
+  const placement = { draw_trackers: state.draw_trackers, streak: null }
+  // Matches that weren't on the fixture list don't move the tournament on
+  if (index === -1) {
+    return { ...placement, fixtures: state.fixtures, waiting_queue: [...state.waiting_queue, match.team1, match.team2] }
+  }
+
+  let fixtures = state.fixtures.map((f, i) => (i === index ? { ...f, match_number: match.match_number } : f))
+  if (state.format === 'round_robin' || winner === null) {
+    return { ...placement, fixtures, waiting_queue: [...state.waiting_queue, match.team1, match.team2] }
+  }
+  fixtures = advance(fixtures, index, winner)
+  const shootout = match.penalties
+    ? `${teamName(state, winner)} won ${Math.max(match.penalties.team1, match.penalties.team2)}–${Math.min(match.penalties.team1, match.penalties.team2)} on penalties`
+    : undefined
+  const champion = knockoutChampion(fixtures)
+  const note = champion !== null ? [shootout, `${teamName(state, champion)} win the tournament`].filter(Boolean).join(' — ') : shootout
+  return {
+    ...placement,
+    fixtures,
+    waiting_queue: [...state.waiting_queue, winner],
+    ...(note ? { note } : {})
+  }
+}
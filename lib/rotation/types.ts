@@ -0,0 +1,233 @@
+// lib/rotation/types.ts
+export type MatchResult = 'team1_win' | 'team2_win' | 'draw'
+
+export interface Goal {
+  team: number
+  // Left out when nobody noted who scored
+  scorer?: string
+  // Seconds on the match clock
+  time: number
+}
+
+export interface Score {
+  team1: number
+  team2: number
+}
+
+// Who was on each team when the result went in — rosters can change mid-session
+export interface Lineups {
+  team1: string[]
+  team2: string[]
+}
+
+export interface Match {
+  match_number: number
+  team1: number
+  team2: number
+  result?: MatchResult
+  duration?: string
+  // Why the teams went where they did, when a rule did something unusual
+  note?: string
+  // Matches recorded before scores were tracked have neither
+  score?: Score
+  goals?: Goal[]
+  // Missing on matches recorded before lineups were kept
+  lineups?: Lineups
+  // Only on knockout ties that were level at full time
+  penalties?: Score
+  // Index of the pitch it was played on, when the session has more than one
+  pitch?: number
+  // When the result went in, by the recording device's clock (ms). Missing on
+  // matches recorded before it was kept.
+  ended_at?: number
+}
+
+export interface DrawTracker {
+  team1: number
+  team2: number
+  nextToPlay: number
+}
+
+export interface Team {
+  // The number used in the queue, matches and draw trackers
+  id: number
+  name: string
+  // Any CSS colour, used for the team's badge
+  color: string
+  players: string[]
+}
+
+// Stored as timestamps rather than a running count, so every device
+// works out the same time and a refresh doesn't reset it
+export interface MatchClock {
+  // ms since epoch
+  started_at: number
+  // Set while paused
+  paused_at: number | null
+  // Total time spent paused before the current pause
+  paused_ms: number
+}
+
+export interface CurrentMatch {
+  team1: number
+  team2: number
+  goals: Goal[]
+  clock: MatchClock
+}
+
+export type RuleSetId = 'classic' | 'winner_capped' | 'longest_on_leaves' | 'everyone_plays'
+
+export interface RuleSet {
+  id: RuleSetId
+  // Only for winner_capped: consecutive wins before both teams go off
+  max_wins?: number
+}
+
+export interface MatchSettings {
+  // null: no time limit, the clock just counts up
+  match_minutes: number | null
+  // null: no "first to N goals" limit
+  goal_limit: number | null
+  // Ask for the result as soon as full time is reached
+  auto_prompt: boolean
+}
+
+// The team kept on for the next match, and how long it has been on
+export interface Streak {
+  team: number
+  matches: number
+  wins: number
+}
+
+// Each pitch runs its own match, and the rotation rules keep a winner on the
+// pitch it won on
+export interface Pitch {
+  match: CurrentMatch | null
+  streak: Streak | null
+}
+
+export type TeamEventType = 'added' | 'withdrawn' | 'benched' | 'returned' | 'moved' | 'swapped'
+
+// A team joining, leaving, sitting out or being moved by hand, shown in the
+// history between matches
+export interface TeamEvent {
+  type: TeamEventType
+  team: number
+  // The team taken off when another was swapped into the current match
+  other?: number
+  // How many results had been recorded when it happened
+  after_match: number
+  // Issuing device's time in ms
+  time: number
+  note?: string
+  // Why an organiser overrode the rotation — required for moves and swaps
+  reason?: string
+}
+
+export type SessionFormat = 'rotation' | 'round_robin' | 'knockout'
+
+// A match planned in advance by a round robin or knockout
+export interface Fixture {
+  round: number
+  // null until the knockout tie that feeds this place has been decided
+  team1: number | null
+  team2: number | null
+  // The match_history entry once it's been played; byes never have one
+  match_number?: number
+  // Knockout only: the team that went through
+  winner?: number
+}
+
+export interface GameState {
+  // Which shape this state was saved in; see migrations.ts
+  schema_version: number
+  format: SessionFormat
+  // Every match of a round robin or knockout, in playing order; empty for rotation
+  fixtures: Fixture[]
+  total_teams: number
+  teams: Team[]
+  rules: RuleSet
+  settings: MatchSettings
+  // One entry per pitch, all fed from the same waiting_queue
+  pitches: Pitch[]
+  waiting_queue: number[]
+  // Still queued, but skipped when picking the next match until they return
+  benched: number[]
+  match_history: Match[]
+  match_counter: number
+  draw_trackers: DrawTracker[]
+  team_events: TeamEvent[]
+  undo_stack: HistoryEntry[]
+  redo_stack: HistoryEntry[]
+  // Matches taken back by undo, kept so the history list can show them struck out
+  undone_history: Match[]
+}
+
+// The part of a GameState that undo/redo restores. Team details are left out
+// so undoing a result never throws away a later roster edit.
+export type RotationSnapshot = Pick<
+  GameState,
+  | 'format'
+  | 'fixtures'
+  | 'total_teams'
+  | 'rules'
+  | 'settings'
+  | 'pitches'
+  | 'waiting_queue'
+  | 'benched'
+  | 'match_counter'
+  | 'draw_trackers'
+>
+
+// What an undo took off the end of the history, for redo to put back
+export interface HistoryTail {
+  matches: Match[]
+  team_events: TeamEvent[]
+  teams: Team[]
+}
+
+// The history, team events and teams only ever grow at the end, so an entry
+// keeps their lengths rather than a copy — copies made long sessions too big
+// to save. Teams added since are dropped on undo; edits to the rest are kept.
+export interface HistoryEntry {
+  label: string
+  snapshot: RotationSnapshot
+  match_count: number
+  event_count: number
+  team_count: number
+  // Only on redo entries
+  tail?: HistoryTail
+}
+
+// Everything that can change a GameState goes through one of these
+export type RotationCommand =
+  // `now` is the issuing device's time in ms, so the engine itself stays pure.
+  // `pitch` is an index into GameState.pitches; without one the first free pitch is used.
+  | { type: 'start_next_match'; pitch?: number; now: number }
+  // Without an explicit result, it is derived from the goals scored
+  // `penalties` settles a drawn knockout tie
+  | { type: 'record_result'; pitch: number; result?: MatchResult; penalties?: Score; now: number }
+  | { type: 'record_goal'; pitch: number; team: number; scorer?: string; now: number }
+  | { type: 'remove_goal'; pitch: number; index: number }
+  | { type: 'pause_clock'; pitch: number; now: number }
+  | { type: 'resume_clock'; pitch: number; now: number }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'update_team'; team: Team }
+  // The engine picks the new team's id; `position` is its place in the queue
+  | { type: 'add_team'; team: Omit<Team, 'id'>; position: number; now: number }
+  | { type: 'withdraw_team'; team: number; now: number }
+  | { type: 'bench_team'; team: number; now: number }
+  | { type: 'return_team'; team: number; now: number }
+  // Manual overrides; `position` is the team's new place in the queue
+  | { type: 'move_team'; team: number; position: number; reason: string; now: number }
+  | { type: 'swap_match_team'; pitch: number; out: number; in: number; reason: string; now: number }
+
+// What a device saw when it issued a command, so a command made stale by
+// another device's change can be rejected instead of applied twice
+export interface CommandBasis {
+  match_counter: number
+  // What was being played on each pitch, goals included
+  matches: (CurrentMatch | null)[]
+  undo_depth: number
+}
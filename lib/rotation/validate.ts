@@ -0,0 +1,237 @@
+// lib/rotation/validate.ts
+// Runtime checks for GameStates that come from outside the app's own code
+import type { GameState } from './types'
+import { RotationError, SCHEMA_VERSION } from './engine'
+import { migrateGameState, schemaVersion } from './migrations'
+import { playingTeams } from './pitches'
+
+export class InvalidGameStateError extends RotationError {
+  // `data` is what was loaded, kept so it can be saved before it's discarded
+  constructor(public problems: string[], public data?: unknown) {
+    super(`Invalid game state: ${problems.slice(0, 3).join('; ')}${problems.length > 3 ? ` (and ${problems.length - 3} more)` : ''}`)
+    this.name = 'InvalidGameStateError'
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+const isInt = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value)
+const isNameList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((name) => typeof name === 'string')
+
+const RESULTS = ['team1_win', 'team2_win', 'draw']
+const TEAM_EVENTS = ['added', 'withdrawn', 'benched', 'returned', 'moved', 'swapped']
+const FORMAT_IDS = ['rotation', 'round_robin', 'knockout']
+const isScore = (value: unknown) => isObject(value) && isInt(value.team1) && isInt(value.team2)
+const isTeamOrNull = (value: unknown) => value === null || isInt(value)
+
+/**
+ * Collects every problem rather than stopping at the first, so an import
+ * error can say exactly what is wrong with the file.
+ */
+export function findGameStateProblems(value: unknown): string[] {
+  const problems: string[] = []
+  const expect = (ok: boolean, message: string) => {
+    if (!ok) problems.push(message)
+  }
+  const expectIntArray = (v: unknown, path: string) => {
+    if (!Array.isArray(v)) problems.push(`${path} must be a list of team numbers`)
+    else v.forEach((n, i) => expect(isInt(n), `${path}[${i}] must be a team number`))
+  }
+
+  if (!isObject(value)) return ['the game state must be an object']
+
+  if (schemaVersion(value) > SCHEMA_VERSION) {
+    return [`it was saved by a newer version of the app (schema v${schemaVersion(value)})`]
+  }
+  expect(value.schema_version === undefined || isInt(value.schema_version), 'schema_version must be a whole number')
+
+  expect(value.format === undefined || FORMAT_IDS.includes(value.format as string), `format must be one of ${FORMAT_IDS.join(', ')}`)
+  if (value.fixtures !== undefined) {
+    if (!Array.isArray(value.fixtures)) {
+      problems.push('fixtures must be a list')
+    } else {
+      value.fixtures.forEach((fixture, i) => {
+        expect(
+          isObject(fixture) && isInt(fixture.round) && isTeamOrNull(fixture.team1) && isTeamOrNull(fixture.team2) &&
+            (fixture.match_number === undefined || isInt(fixture.match_number)) &&
+            (fixture.winner === undefined || isInt(fixture.winner)),
+          `fixtures[${i}] must have a round and two team numbers or nulls`
+        )
+      })
+    }
+  }
+
+  expect(isInt(value.total_teams) && (value.total_teams as number) > 0, 'total_teams must be a positive whole number')
+  expect(isInt(value.match_counter) && (value.match_counter as number) >= 0, 'match_counter must be a whole number')
+  expectIntArray(value.waiting_queue, 'waiting_queue')
+  if (value.benched !== undefined) expectIntArray(value.benched, 'benched')
+
+  const expectMatch = (current: unknown, path: string) => {
+    if (current === null) return
+    if (!isObject(current)) {
+      problems.push(`${path} must be an object or null`)
+    } else {
+      expect(isInt(current.team1), `${path}.team1 must be a team number`)
+      expect(isInt(current.team2), `${path}.team2 must be a team number`)
+      expect(current.goals === undefined || Array.isArray(current.goals), `${path}.goals must be a list`)
+    }
+  }
+  // Older shapes have gaps the migrations fill; the current one must be complete
+  const latest = schemaVersion(value) === SCHEMA_VERSION
+  if (latest) {
+    expect(isObject(value.rules) && isObject(value.settings), 'rules and settings must be objects')
+    for (const key of ['teams', 'benched', 'fixtures', 'team_events', 'undo_stack', 'redo_stack', 'undone_history'] as const) {
+      expect(Array.isArray(value[key]), `${key} must be a list`)
+    }
+    for (const key of ['undo_stack', 'redo_stack'] as const) {
+      const entries = value[key]
+      if (!Array.isArray(entries)) continue
+      entries.forEach((entry, i) => {
+        expect(
+          isObject(entry) && isObject(entry.snapshot) && isInt(entry.match_count) && isInt(entry.event_count) && isInt(entry.team_count),
+          `${key}[${i}] must have a snapshot and the history lengths it was taken at`
+        )
+      })
+    }
+  }
+
+  // Before several pitches, there was one current match
+  if (schemaVersion(value) < 3) {
+    expectMatch(value.current_match, 'current_match')
+  } else if (!Array.isArray(value.pitches) || value.pitches.length === 0) {
+    problems.push('pitches must be a list with at least one pitch')
+  } else {
+    value.pitches.forEach((pitch, i) => {
+      if (!isObject(pitch)) {
+        problems.push(`pitches[${i}] must be an object`)
+        return
+      }
+      expectMatch(pitch.match, `pitches[${i}].match`)
+      expect(pitch.streak === null || (isObject(pitch.streak) && isInt(pitch.streak.team)), `pitches[${i}].streak must be null or name a team`)
+    })
+  }
+
+  if (!Array.isArray(value.match_history)) {
+    problems.push('match_history must be a list')
+  } else {
+    value.match_history.forEach((match, i) => {
+      const path = `match_history[${i}]`
+      if (!isObject(match)) {
+        problems.push(`${path} must be an object`)
+        return
+      }
+      expect(isInt(match.match_number), `${path}.match_number must be a whole number`)
+      expect(isInt(match.team1), `${path}.team1 must be a team number`)
+      expect(isInt(match.team2), `${path}.team2 must be a team number`)
+      expect(match.result === undefined || RESULTS.includes(match.result as string), `${path}.result must be one of ${RESULTS.join(', ')}`)
+      expect(match.duration === undefined || typeof match.duration === 'string', `${path}.duration must be text`)
+      expect(match.ended_at === undefined || isInt(match.ended_at), `${path}.ended_at must be a timestamp`)
+      if (match.score !== undefined) {
+        expect(isScore(match.score), `${path}.score must have whole-number team1 and team2`)
+      }
+      if (match.penalties !== undefined) {
+        expect(isScore(match.penalties), `${path}.penalties must have whole-number team1 and team2`)
+      }
+      if (match.lineups !== undefined) {
+        const lineups = match.lineups
+        expect(
+          isObject(lineups) && isNameList(lineups.team1) && isNameList(lineups.team2),
+          `${path}.lineups must list player names for team1 and team2`
+        )
+      }
+    })
+  }
+
+  if (!Array.isArray(value.draw_trackers)) {
+    problems.push('draw_trackers must be a list')
+  } else {
+    value.draw_trackers.forEach((tracker, i) => {
+      expect(
+        isObject(tracker) && isInt(tracker.team1) && isInt(tracker.team2) && isInt(tracker.nextToPlay),
+        `draw_trackers[${i}] must have team1, team2 and nextToPlay team numbers`
+      )
+    })
+  }
+
+  if (value.teams !== undefined) {
+    if (!Array.isArray(value.teams)) {
+      problems.push('teams must be a list')
+    } else {
+      value.teams.forEach((team, i) => {
+        const path = `teams[${i}]`
+        if (!isObject(team)) {
+          problems.push(`${path} must be an object`)
+          return
+        }
+        expect(isInt(team.id), `${path}.id must be a team number`)
+        expect(typeof team.name === 'string', `${path}.name must be text`)
+        expect(typeof team.color === 'string', `${path}.color must be text`)
+        expect(isNameList(team.players), `${path}.players must be a list of names`)
+      })
+    }
+  }
+
+  if (value.team_events !== undefined) {
+    if (!Array.isArray(value.team_events)) {
+      problems.push('team_events must be a list')
+    } else {
+      value.team_events.forEach((event, i) => {
+        expect(
+          isObject(event) && TEAM_EVENTS.includes(event.type as string) && isInt(event.team) && isInt(event.after_match),
+          `team_events[${i}] must have a type, a team number and after_match`
+        )
+      })
+    }
+  }
+
+  for (const key of ['undo_stack', 'redo_stack', 'undone_history'] as const) {
+    expect(value[key] === undefined || Array.isArray(value[key]), `${key} must be a list`)
+  }
+
+  // Only worth checking references once the basic shape is right. Older
+  // shapes are checked again once they've been migrated.
+  if (problems.length === 0 && latest) {
+    const state = value as unknown as GameState
+    const ids = new Set(state.teams.map((t) => t.id))
+    const inPlay = [...state.waiting_queue, ...playingTeams(state)]
+    inPlay.forEach((team) => expect(ids.has(team), `team ${team} is in play but has no team details`))
+    expect(new Set(inPlay).size === inPlay.length, 'a team appears more than once in the queue and current matches')
+    state.benched.forEach((team) => expect(state.waiting_queue.includes(team), `benched team ${team} is not in the queue`))
+    state.fixtures.forEach((fixture, i) => {
+      for (const team of [fixture.team1, fixture.team2, fixture.winner]) {
+        if (team !== null && team !== undefined) expect(ids.has(team), `fixtures[${i}] refers to team ${team}, which has no team details`)
+      }
+    })
+  }
+  return problems
+}
+
+// Migrates older shapes first, so only genuinely broken states are rejected
+export function validateGameState(value: unknown): GameState {
+  // Older shapes pass these checks too; anything that doesn't can't be migrated
+  const problems = findGameStateProblems(value)
+  if (problems.length > 0) throw new InvalidGameStateError(problems, value)
+  let migrated: unknown
+  try {
+    migrated = migrateGameState(value)
+  } catch (e) {
+    const version = schemaVersion(value as Record<string, unknown>)
+    throw new InvalidGameStateError([`it could not be upgraded from schema v${version}: ${(e as Error).message}`], value)
+  }
+  const remaining = findGameStateProblems(migrated)
+  if (remaining.length > 0) throw new InvalidGameStateError(remaining, value)
+  return migrated as GameState
+}
+
+/**
+ * Every stored game goes through here on its way in — from Firestore, the
+ * REST API or localStorage — so a bad document fails with a clear list of
+ * problems instead of half-working.
+ */
+export function loadGameState(value: unknown): GameState | null {
+  if (value === null || value === undefined) return null
+  // Ended sessions used to be stored as an empty game rather than cleared
+  if (isObject(value) && value.total_teams === 0) return null
+  return validateGameState(value)
+}
@@ -0,0 +1,107 @@
+// lib/session.ts
+// Session shapes and helpers shared by every storage backend
+import { GameState, loadGameState } from './rotation'
+
+// Short, unambiguous codes that are easy to read out across a pitch
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+const CODE_LENGTH = 6
+
+export interface SessionSummary {
+  code: string
+  name: string
+  created_at: number
+  updated_at: number
+  // False once the session has been ended; it drops off the active list
+  active: boolean
+  // Signed-in user who created or claimed the session; null for local
+  // sessions and sessions created before sign-in existed
+  owner: string | null
+}
+
+export interface SessionDocument extends SessionSummary {
+  // null until a game is started, and again after it is ended
+  state: GameState | null
+  // Lets listeners tell who made a change
+  updated_by: string
+}
+
+export interface SessionUpdate {
+  // null when no session exists under this code
+  session: SessionSummary | null
+  state: GameState | null
+  // True when the change was written by a different device
+  remote: boolean
+}
+
+export function normalizeSessionCode(input: string): string {
+  return input.trim().toUpperCase().replace(/[^A-Z0-9]/g, '')
+}
+
+export function sessionPath(code: string): string {
+  return `/s/${code}`
+}
+
+// Read-only scoreboard for a screen at the pitch; with no code it follows
+// the most recently active session
+export function displayPath(code?: string): string {
+  return code ? `/display?code=${code}` : '/display'
+}
+
+export function generateSessionCode(): string {
+  let code = ''
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]
+  }
+  return code
+}
+
+// An invite link works once, and only for this long
+export const INVITE_LIFETIME_DAYS = 7
+export const INVITE_LIFETIME_MS = INVITE_LIFETIME_DAYS * 24 * 60 * 60 * 1000
+
+// Long enough that an invite link can't be guessed
+export function generateInviteToken(): string {
+  const bytes = new Uint8Array(16)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+export function inviteLink(origin: string, code: string, token: string): string {
+  return `${origin}${sessionPath(code)}?invite=${token}`
+}
+
+export function newSessionDocument(
+  code: string,
+  name: string,
+  deviceId: string,
+  owner: string | null = null
+): SessionDocument {
+  const now = Date.now()
+  return {
+    code,
+    name: name.trim() || `Session ${code}`,
+    created_at: now,
+    updated_at: now,
+    active: true,
+    state: null,
+    updated_by: deviceId,
+    owner
+  }
+}
+
+export function sessionSummary(data: SessionDocument): SessionSummary {
+  const { code, name, created_at, updated_at, active } = data
+  return { code, name, created_at, updated_at, active, owner: data.owner ?? null }
+}
+
+// Throws InvalidGameStateError if the stored game can't be used
+export function splitSessionDocument(data: SessionDocument): { session: SessionSummary; state: GameState | null } {
+  return {
+    session: sessionSummary(data),
+    state: loadGameState(data.state)
+  }
+}
+
+export function sortByRecentActivity(sessions: SessionSummary[]): SessionSummary[] {
+  return [...sessions].sort((a, b) => b.updated_at - a.updated_at)
+}
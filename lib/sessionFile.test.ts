@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { applyCommand, createGameState, defaultTeams } from './rotation'
+import { play } from './rotation/testHelpers'
+import { SESSION_FILE_FORMAT, exportSessionJson, matchHistoryCsv, parseSessionJson } from './sessionFile'
+
+describe('session files', () => {
+  const state = play(createGameState(4), 'team1_win')
+  const file = (fields: Record<string, unknown>) =>
+    JSON.stringify({ format: SESSION_FILE_FORMAT, version: 1, exported_at: '2026-01-01T00:00:00.000Z', state, ...fields })
+
+  it('read back exactly what was exported', () => {
+    expect(parseSessionJson(exportSessionJson(state, 'Tuesday'))).toEqual(state)
+  })
+
+  it('refuse text that isn\'t JSON', () => {
+    expect(() => parseSessionJson('{ "format": ')).toThrow('not valid JSON')
+  })
+
+  it('refuse JSON that isn\'t a session file', () => {
+    expect(() => parseSessionJson(JSON.stringify(state))).toThrow('not a session file exported from this app')
+    expect(() => parseSessionJson('null')).toThrow('not a session file exported from this app')
+  })
+
+  it('refuse files from a newer version of the app', () => {
+    expect(() => parseSessionJson(file({ version: 2 }))).toThrow('newer version of the app (format v2)')
+    expect(() => parseSessionJson(file({ version: '1' }))).toThrow('doesn\'t say which version')
+  })
+
+  it('say which fields of the game are missing or wrong', () => {
+    const missing: Record<string, unknown> = { ...state }
+    delete missing.match_counter
+    expect(() => parseSessionJson(file({ state: missing }))).toThrow('damaged: match_counter must be a whole number')
+    expect(() => parseSessionJson(file({ state: { ...state, waiting_queue: [1, 'two'] } }))).toThrow(
+      'waiting_queue[1] must be a team number'
+    )
+    expect(() => parseSessionJson(file({ state: undefined }))).toThrow('damaged: the game state must be an object')
+  })
+})
+
+describe('matchHistoryCsv', () => {
+  it('stops names being read as spreadsheet formulas', () => {
+    const [first, second, third] = defaultTeams(3)
+    let state = createGameState([{ ...first, name: '=HYPERLINK("x")', players: ['@Sam'] }, { ...second, name: '-1' }, third])
+    state = applyCommand(state, { type: 'start_next_match', now: 0 })
+    state = applyCommand(state, { type: 'record_goal', pitch: 0, team: 1, scorer: '@Sam', now: 1000 })
+    state = applyCommand(state, { type: 'record_result', pitch: 0, now: 2000 })
+
+    const [, row] = matchHistoryCsv(state).trim().split('\n')
+    expect(row).toBe('1,"\'=HYPERLINK(""x"")",\'-1,1,0,team1_win,"\'=HYPERLINK(""x"")",00:02,"\'@Sam (=HYPERLINK(""x""))",')
+  })
+})
@@ -0,0 +1,102 @@
+// lib/sessionFile.ts
+// Session export/import: versioned JSON for moving a whole session, CSV of
+// the match history for spreadsheets
+import { GameState, InvalidGameStateError, RotationError, findTeam, tieWinner, validateGameState } from './rotation'
+
+export const SESSION_FILE_FORMAT = 'football-rotation-session'
+export const SESSION_FILE_VERSION = 1
+
+export interface SessionFile {
+  format: typeof SESSION_FILE_FORMAT
+  version: number
+  exported_at: string
+  session_name?: string
+  state: GameState
+}
+
+export class SessionFileError extends RotationError {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SessionFileError'
+  }
+}
+
+export function exportSessionJson(state: GameState, sessionName?: string): string {
+  const file: SessionFile = {
+    format: SESSION_FILE_FORMAT,
+    version: SESSION_FILE_VERSION,
+    exported_at: new Date().toISOString(),
+    state
+  }
+  if (sessionName) file.session_name = sessionName
+  return JSON.stringify(file, null, 2)
+}
+
+export function parseSessionJson(text: string): GameState {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new SessionFileError('This file is not valid JSON')
+  }
+  if (typeof parsed !== 'object' || parsed === null || (parsed as SessionFile).format !== SESSION_FILE_FORMAT) {
+    throw new SessionFileError('This is not a session file exported from this app')
+  }
+  const file = parsed as SessionFile
+  if (!Number.isInteger(file.version)) {
+    throw new SessionFileError('This session file doesn\'t say which version of the format it uses')
+  }
+  if (file.version > SESSION_FILE_VERSION) {
+    throw new SessionFileError(`This file was exported by a newer version of the app (format v${file.version})`)
+  }
+  try {
+    return validateGameState(file.state)
+  } catch (e) {
+    if (!(e instanceof InvalidGameStateError)) throw e
+    throw new SessionFileError(`The session in this file is damaged: ${e.problems.slice(0, 5).join('; ')}`)
+  }
+}
+
+function csvCell(value: string | number | undefined): string {
+  let text = value === undefined ? '' : String(value)
+  // Spreadsheets run text starting with these as a formula; a leading quote
+  // keeps a team or player name as plain text
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function matchHistoryCsv(state: GameState): string {
+  const header = [
+    'match_number', 'team1', 'team2', 'team1_goals', 'team2_goals',
+    'result', 'winner', 'duration', 'scorers', 'note'
+  ]
+  const rows = [...state.match_history]
+    .sort((a, b) => a.match_number - b.match_number)
+    .map((match) => {
+      const team1 = findTeam(state, match.team1).name
+      const team2 = findTeam(state, match.team2).name
+      // Knockout ties settled on penalties still have a winner
+      const winner = tieWinner(match) === match.team1 ? team1 : tieWinner(match) === match.team2 ? team2 : ''
+      const scorers = (match.goals ?? [])
+        .filter((g) => g.scorer)
+        .map((g) => `${g.scorer} (${findTeam(state, g.team).name})`)
+        .join('; ')
+      return [
+        match.match_number, team1, team2, match.score?.team1, match.score?.team2,
+        match.result, winner, match.duration, scorers, match.note
+      ].map(csvCell).join(',')
+    })
+  return [header.join(','), ...rows].join('\n') + '\n'
+}
+
+// Trigger a browser download of generated text
+export function downloadTextFile(filename: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
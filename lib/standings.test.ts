@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { Match, MatchResult, defaultTeams } from './rotation'
+import { computeStandings, sortStandings, topScorers } from './standings'
+
+const match = (match_number: number, team1: number, team2: number, result?: MatchResult): Match =>
+  ({ match_number, team1, team2, result })
+
+const standingFor = (history: Match[], team: number) =>
+  computeStandings(defaultTeams(4), history).find((s) => s.team === team)
+
+describe('computeStandings', () => {
+  it('gives three points for a win and one for a draw', () => {
+    const history = [match(1, 1, 2, 'team1_win'), match(2, 1, 3, 'draw'), match(3, 4, 1, 'team1_win')]
+    expect(standingFor(history, 1)).toMatchObject({ played: 3, won: 1, drawn: 1, lost: 1, points: 4, win_pct: 33 })
+    expect(standingFor(history, 3)).toMatchObject({ played: 1, drawn: 1, points: 1 })
+  })
+
+  it('lists teams that haven\'t played yet', () => {
+    expect(standingFor([match(1, 1, 2, 'draw')], 4)).toMatchObject({ played: 0, points: 0, win_pct: 0 })
+  })
+
+  it('counts streaks in match order, whatever order the history is in', () => {
+    const history = [
+      match(4, 2, 1, 'team1_win'),
+      match(1, 1, 2, 'team1_win'),
+      match(3, 1, 4, 'team1_win'),
+      match(2, 1, 3, 'team1_win')
+    ]
+    expect(standingFor(history, 1)).toMatchObject({ current_streak: 0, longest_streak: 3 })
+    expect(standingFor(history, 2)).toMatchObject({ current_streak: 1, longest_streak: 1 })
+  })
+
+  it('ends a streak on a draw', () => {
+    const history = [match(1, 1, 2, 'team1_win'), match(2, 1, 3, 'draw')]
+    expect(standingFor(history, 1)).toMatchObject({ current_streak: 0, longest_streak: 1 })
+  })
+
+  it('skips matches without a result', () => {
+    expect(standingFor([match(1, 1, 2)], 1)).toMatchObject({ played: 0 })
+  })
+})
+
+describe('sortStandings', () => {
+  const history = [match(1, 1, 2, 'team1_win'), match(2, 3, 4, 'draw'), match(3, 3, 1, 'team1_win')]
+  const standings = computeStandings(defaultTeams(4), history)
+
+  it('puts points first, then wins, then fewest games played', () => {
+    expect(sortStandings(standings).map((s) => s.team)).toEqual([3, 1, 4, 2])
+  })
+
+  it('sorts by a chosen column either way, falling back to the usual order', () => {
+    expect(sortStandings(standings, 'lost', 'desc').map((s) => s.team)).toEqual([1, 2, 3, 4])
+    expect(sortStandings(standings, 'played', 'asc').map((s) => s.team)).toEqual([4, 2, 3, 1])
+  })
+})
+
+describe('topScorers', () => {
+  it('adds up named scorers per team, ignoring case, most goals first', () => {
+    const history: Match[] = [
+      { ...match(1, 1, 2, 'team1_win'), goals: [{ team: 1, scorer: 'Ann', time: 10 }, { team: 1, time: 20 }] },
+      { ...match(2, 1, 3, 'team1_win'), goals: [{ team: 1, scorer: 'ann', time: 5 }, { team: 3, scorer: 'Bo', time: 9 }] }
+    ]
+    expect(topScorers(history)).toEqual([
+      { player: 'Ann', team: 1, goals: 2 },
+      { player: 'Bo', team: 3, goals: 1 }
+    ])
+  })
+})
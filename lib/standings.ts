@@ -0,0 +1,100 @@
+// lib/standings.ts
+// Session table derived from match history — never stored, always recomputed
+import type { Match, Team } from './rotation'
+
+export const POINTS_FOR_WIN = 3
+export const POINTS_FOR_DRAW = 1
+
+export interface TeamStanding {
+  team: number
+  played: number
+  won: number
+  drawn: number
+  lost: number
+  points: number
+  // 0–100
+  win_pct: number
+  // Consecutive wins up to the team's most recent match
+  current_streak: number
+  longest_streak: number
+}
+
+export type StandingsSortKey = Exclude<keyof TeamStanding, 'team'>
+
+function emptyStanding(team: number): TeamStanding {
+  return { team, played: 0, won: 0, drawn: 0, lost: 0, points: 0, win_pct: 0, current_streak: 0, longest_streak: 0 }
+}
+
+export function computeStandings(teams: Team[], history: Match[]): TeamStanding[] {
+  const table = new Map<number, TeamStanding>(teams.map((t) => [t.id, emptyStanding(t.id)]))
+  const row = (team: number) => {
+    if (!table.has(team)) table.set(team, emptyStanding(team))
+    return table.get(team)!
+  }
+
+  const ordered = [...history].sort((a, b) => a.match_number - b.match_number)
+  for (const match of ordered) {
+    if (!match.result) continue
+    const home = row(match.team1)
+    const away = row(match.team2)
+    home.played++
+    away.played++
+    if (match.result === 'draw') {
+      home.drawn++
+      away.drawn++
+      home.current_streak = 0
+      away.current_streak = 0
+      continue
+    }
+    const [winner, loser] = match.result === 'team1_win' ? [home, away] : [away, home]
+    winner.won++
+    loser.lost++
+    winner.current_streak++
+    winner.longest_streak = Math.max(winner.longest_streak, winner.current_streak)
+    loser.current_streak = 0
+  }
+
+  return Array.from(table.values()).map((s) => ({
+    ...s,
+    points: s.won * POINTS_FOR_WIN + s.drawn * POINTS_FOR_DRAW,
+    win_pct: s.played > 0 ? Math.round((s.won / s.played) * 100) : 0
+  }))
+}
+
+// Points first, then wins, then fewest games — or a single chosen column
+export function sortStandings(
+  standings: TeamStanding[],
+  key: StandingsSortKey = 'points',
+  direction: 'asc' | 'desc' = 'desc'
+): TeamStanding[] {
+  const sign = direction === 'desc' ? 1 : -1
+  return [...standings].sort(
+    (a, b) =>
+      sign * (b[key] - a[key]) ||
+      b.points - a.points ||
+      b.won - a.won ||
+      a.played - b.played ||
+      a.team - b.team
+  )
+}
+
+export interface ScorerTally {
+  player: string
+  team: number
+  goals: number
+}
+
+// Goals per named scorer across the given matches, most first
+export function topScorers(history: Match[]): ScorerTally[] {
+  const tallies = new Map<string, ScorerTally>()
+  for (const match of history) {
+    for (const goal of match.goals ?? []) {
+      if (!goal.scorer) continue
+      const key = `${goal.team}:${goal.scorer.toLowerCase()}`
+      const tally = tallies.get(key) ?? { player: goal.scorer, team: goal.team, goals: 0 }
+      tally.goals++
+      tallies.set(key, tally)
+    }
+  }
+  return Array.from(tallies.values()).sort((a, b) => b.goals - a.goals || a.player.localeCompare(b.player))
+}
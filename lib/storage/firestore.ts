@@ -0,0 +1,344 @@
+// lib/storage/firestore.ts
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  orderBy,
+  query,
+  runTransaction,
+  setDoc,
+  where
+} from 'firebase/firestore'
+import { FirebaseError } from 'firebase/app'
+import { getDb } from '../firebase'
+import { PermissionDeniedError, currentUser } from '../auth'
+import {
+  RotationError,
+  applyCommand,
+  assertFreshCommand,
+  assertFreshSave,
+  loadGameState
+} from '../rotation'
+import {
+  INVITE_LIFETIME_MS,
+  SessionDocument,
+  generateInviteToken,
+  generateSessionCode,
+  newSessionDocument,
+  sessionSummary,
+  sortByRecentActivity,
+  splitSessionDocument
+} from '../session'
+import { ArchiveSummary, SessionArchive, summarizeArchive } from '../archive'
+import { LEGACY_SESSION_ID, legacySessionDocument } from '../legacySession'
+import type { PoolPlayer } from '../players'
+import type { SessionStore } from './types'
+
+const sessions = () => collection(getDb(), 'sessions')
+const sessionDoc = (code: string) => doc(sessions(), code)
+const presenceCollection = (code: string) => collection(sessions(), code, 'presence')
+const inviteDoc = (code: string, token: string) => doc(sessions(), code, 'invites', token)
+const memberDoc = (code: string, uid: string) => doc(sessions(), code, 'members', uid)
+// Pools are keyed by the owner of the sessions that use them
+const playerPoolDoc = (owner: string) => doc(getDb(), 'pools', owner)
+// The one pool everybody shared before sign-in; read-only now
+const LEGACY_POOL = 'default'
+const archives = () => collection(getDb(), 'archives')
+const archiveStates = () => collection(getDb(), 'archive_states')
+
+// A device counts as connected if it has checked in within this window
+const PRESENCE_HEARTBEAT_MS = 20_000
+const PRESENCE_TIMEOUT_MS = 60_000
+
+// The security rules (firestore.rules) are what actually enforce roles; this
+// just turns their refusals into something the UI can explain
+function toPermissionError(error: unknown): unknown {
+  if (error instanceof FirebaseError && error.code === 'permission-denied') return new PermissionDeniedError()
+  return error
+}
+
+async function sessionOwner(code: string): Promise<string | null> {
+  const snapshot = await getDoc(sessionDoc(code))
+  return snapshot.exists() ? ((snapshot.data() as SessionDocument).owner ?? null) : null
+}
+
+async function readPool(pool: string): Promise<PoolPlayer[] | null> {
+  const snapshot = await getDoc(playerPoolDoc(pool))
+  return snapshot.exists() ? ((snapshot.data().players as PoolPlayer[]) ?? []) : null
+}
+
+export const firestoreStore: SessionStore = {
+  backend: 'firestore',
+  shared: true,
+
+  async createSession(name, deviceId) {
+    const user = currentUser()
+    if (!user) throw new PermissionDeniedError('Sign in to create a session')
+    // Retry on the (unlikely) collision with an existing code
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const data = newSessionDocument(generateSessionCode(), name, deviceId, user.uid)
+      const created = await runTransaction(getDb(), async (transaction) => {
+        const existing = await transaction.get(sessionDoc(data.code))
+        if (existing.exists()) return false
+        transaction.set(sessionDoc(data.code), data)
+        return true
+      })
+      if (created) return sessionSummary(data)
+    }
+    throw new Error('Could not allocate a session code — please try again')
+  },
+
+  // The old game's document is kept, pointing at the session it moved to, so
+  // other devices know it's been done
+  async importLegacySession(deviceId, cached) {
+    const legacyDoc = sessionDoc(LEGACY_SESSION_ID)
+    const found = await getDoc(legacyDoc)
+    if (found.exists() ? 'migrated_to' in found.data() : cached === null) return null
+    const user = currentUser()
+    if (!user) throw new PermissionDeniedError('Sign in to move the game from before sessions had codes')
+    // Retry on the (unlikely) collision with an existing code
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const code = generateSessionCode()
+      const moved = await runTransaction(getDb(), async (transaction) => {
+        const legacy = await transaction.get(legacyDoc)
+        if (legacy.exists() && 'migrated_to' in legacy.data()) return null
+        // Someone else has claimed it; it's theirs to move
+        const owner = legacy.exists() ? (legacy.data().owner ?? null) : null
+        if (owner !== null && owner !== user.uid) return null
+        if ((await transaction.get(sessionDoc(code))).exists()) return undefined
+        // The cloud's copy wins; a device's own only counts if the cloud never had one
+        const data = legacySessionDocument(legacy.exists() ? legacy.data() : cached, code, deviceId, user.uid)
+        if (legacy.exists()) transaction.update(legacyDoc, { owner: user.uid, migrated_to: code })
+        if (!data) return null
+        transaction.set(sessionDoc(code), data)
+        return sessionSummary(data)
+      }).catch((e) => {
+        throw toPermissionError(e)
+      })
+      if (moved !== undefined) return moved
+    }
+    throw new Error('Could not allocate a session code — please try again')
+  },
+
+  async listActiveSessions() {
+    const snapshot = await getDocs(query(sessions(), where('active', '==', true)))
+    return sortByRecentActivity(
+      snapshot.docs.map((d) => sessionSummary(d.data() as SessionDocument))
+    )
+  },
+
+  subscribeToSession(code, deviceId, onUpdate, onError) {
+    return onSnapshot(
+      sessionDoc(code),
+      (snapshot) => {
+        // Our own optimistic write echoing back — the UI already shows it
+        if (snapshot.metadata.hasPendingWrites) return
+        if (!snapshot.exists()) {
+          onUpdate({ session: null, state: null, remote: false })
+          return
+        }
+        const data = snapshot.data() as SessionDocument
+        try {
+          onUpdate({ ...splitSessionDocument(data), remote: data.updated_by !== deviceId })
+        } catch (e) {
+          onError(e as Error)
+        }
+      },
+      onError
+    )
+  },
+
+  // A transaction rather than a plain write: offline, a write sits in the
+  // local cache and lands unchecked once back online, but a transaction fails
+  // so the change can be queued and checked when it's sent
+  async saveSession(code, state, deviceId, basis) {
+    await runTransaction(getDb(), async (transaction) => {
+      const snapshot = await transaction.get(sessionDoc(code))
+      if (!snapshot.exists()) throw new RotationError(`No session found with code ${code}`)
+      assertFreshSave(loadGameState((snapshot.data() as SessionDocument).state), basis)
+      transaction.update(sessionDoc(code), {
+        state,
+        active: state !== null,
+        updated_by: deviceId,
+        updated_at: Date.now()
+      })
+    }).catch((e) => {
+      throw toPermissionError(e)
+    })
+  },
+
+  // Runs inside a transaction so two devices acting on the same match can't both succeed
+  async applySessionCommand(code, command, basis, deviceId) {
+    return runTransaction(getDb(), async (transaction) => {
+      const snapshot = await transaction.get(sessionDoc(code))
+      const current = loadGameState(snapshot.exists() ? (snapshot.data() as SessionDocument).state : null)
+      if (!current) throw new RotationError('There is no game in progress in this session')
+      assertFreshCommand(current, command, basis)
+      const next = applyCommand(current, command)
+      transaction.update(sessionDoc(code), {
+        state: next,
+        updated_by: deviceId,
+        updated_at: Date.now()
+      })
+      return next
+    }).catch((e) => {
+      throw toPermissionError(e)
+    })
+  },
+
+  joinPresence(code, deviceId, onCount) {
+    const ownDoc = doc(presenceCollection(code), deviceId)
+    // The rules only let a signed-in viewer take their check-in down early;
+    // anyone else's drops out of the count once it times out
+    const uid = currentUser()?.uid ?? null
+    const heartbeat = () => {
+      setDoc(ownDoc, { last_seen: Date.now(), uid }).catch((e) => {
+        console.error('Failed to update presence:', e)
+      })
+    }
+    heartbeat()
+    const heartbeatTimer = setInterval(heartbeat, PRESENCE_HEARTBEAT_MS)
+
+    let lastSeenTimes: number[] = []
+    const recount = () => {
+      const cutoff = Date.now() - PRESENCE_TIMEOUT_MS
+      onCount(lastSeenTimes.filter((t) => t > cutoff).length)
+    }
+    const unsubscribe = onSnapshot(
+      presenceCollection(code),
+      (snapshot) => {
+        lastSeenTimes = snapshot.docs.map((d) => (d.data().last_seen as number) ?? 0)
+        recount()
+      },
+      (e) => console.error('Presence listener failed:', e)
+    )
+    // Devices that vanish without cleaning up still need to drop out of the count
+    const recountTimer = setInterval(recount, PRESENCE_HEARTBEAT_MS)
+
+    const leave = () => {
+      if (uid) deleteDoc(ownDoc).catch(() => {})
+    }
+    window.addEventListener('beforeunload', leave)
+
+    return () => {
+      clearInterval(heartbeatTimer)
+      clearInterval(recountTimer)
+      unsubscribe()
+      window.removeEventListener('beforeunload', leave)
+      leave()
+    }
+  },
+
+  async getRole(code, uid) {
+    if (!uid) return 'spectator'
+    const snapshot = await getDoc(sessionDoc(code))
+    if (!snapshot.exists()) return 'spectator'
+    const owner = (snapshot.data() as SessionDocument).owner ?? null
+    if (owner === uid) return 'owner'
+    // Sessions from before sign-in are nobody's to run until they're claimed
+    if (owner === null) return 'spectator'
+    return (await getDoc(memberDoc(code, uid))).exists() ? 'organiser' : 'spectator'
+  },
+
+  async claimSession(code) {
+    const user = currentUser()
+    if (!user) throw new PermissionDeniedError('Sign in to claim this session')
+    await runTransaction(getDb(), async (transaction) => {
+      const snapshot = await transaction.get(sessionDoc(code))
+      if (!snapshot.exists()) throw new RotationError(`No session found with code ${code}`)
+      const owner = (snapshot.data() as SessionDocument).owner ?? null
+      if (owner === user.uid) return
+      if (owner !== null) throw new RotationError('This session already has an owner')
+      transaction.update(sessionDoc(code), { owner: user.uid })
+    }).catch((e) => {
+      throw toPermissionError(e)
+    })
+  },
+
+  async createInvite(code) {
+    const token = generateInviteToken()
+    const now = Date.now()
+    try {
+      await setDoc(inviteDoc(code, token), {
+        created_at: now,
+        created_by: currentUser()?.uid ?? null,
+        expires_at: now + INVITE_LIFETIME_MS
+      })
+    } catch (e) {
+      throw toPermissionError(e)
+    }
+    return token
+  },
+
+  // The invite is marked used in the same transaction that makes the member,
+  // so one link can't make two organisers
+  async acceptInvite(code, token) {
+    const user = currentUser()
+    if (!user) throw new PermissionDeniedError('Sign in to accept the invite')
+    await runTransaction(getDb(), async (transaction) => {
+      const invite = await transaction.get(inviteDoc(code, token))
+      if (!invite.exists()) throw new PermissionDeniedError('This invite link is not valid')
+      const { used_by: usedBy, expires_at: expiresAt } = invite.data()
+      // Opening the same link again
+      if (usedBy === user.uid) return
+      if (usedBy) throw new PermissionDeniedError('This invite link has already been used')
+      if (typeof expiresAt !== 'number' || expiresAt <= Date.now()) {
+        throw new PermissionDeniedError('This invite link has expired — ask the owner for a new one')
+      }
+      const now = Date.now()
+      transaction.update(inviteDoc(code, token), { used_by: user.uid, used_at: now })
+      transaction.set(memberDoc(code, user.uid), { invite: token, name: user.name, joined_at: now })
+    }).catch((e) => {
+      throw toPermissionError(e)
+    })
+  },
+
+  async loadPlayerPool(code) {
+    const owner = await sessionOwner(code)
+    // An owner without a pool yet starts from the shared one
+    return (owner ? await readPool(owner) : null) ?? (await readPool(LEGACY_POOL)) ?? []
+  },
+
+  async savePlayerPool(code, players) {
+    const owner = await sessionOwner(code)
+    if (!owner) throw new PermissionDeniedError('Claim this session before changing its player pool')
+    try {
+      // The rules check the session to let its organisers in
+      await setDoc(playerPoolDoc(owner), { players, session: code })
+    } catch (e) {
+      throw toPermissionError(e)
+    }
+  },
+
+  // The summary goes in its own document so listing archives — which every
+  // session does for ratings — doesn't download every game ever played. A
+  // transaction, like saveSession, so it fails offline instead of waiting
+  // for a connection with the session still not ended.
+  async archiveSession(archive) {
+    await runTransaction(getDb(), async (transaction) => {
+      transaction.set(doc(archives(), archive.id), summarizeArchive(archive))
+      transaction.set(doc(archiveStates(), archive.id), archive)
+    }).catch((e) => {
+      throw toPermissionError(e)
+    })
+  },
+
+  async listArchives() {
+    const snapshot = await getDocs(query(archives(), orderBy('ended_at', 'desc')))
+    return snapshot.docs.map((d) => {
+      const data = d.data() as ArchiveSummary | SessionArchive
+      return 'state' in data ? summarizeArchive(data) : data
+    })
+  },
+
+  async getArchive(id) {
+    const snapshot = await getDoc(doc(archiveStates(), id))
+    if (snapshot.exists()) return snapshot.data() as SessionArchive
+    // Archives from before summaries were split out
+    const legacy = await getDoc(doc(archives(), id))
+    return legacy.exists() && 'state' in legacy.data() ? (legacy.data() as SessionArchive) : null
+  }
+}
@@ -0,0 +1,34 @@
+// lib/storage/index.ts
+import { firestoreStore } from './firestore'
+import { localStore } from './local'
+import { restStore } from './rest'
+import type { SessionStore, StorageBackend } from './types'
+
+export type { SessionStore, StorageBackend } from './types'
+
+const stores: Record<StorageBackend, SessionStore> = {
+  local: localStore,
+  firestore: firestoreStore,
+  rest: restStore
+}
+
+// A deployment misconfigured badly enough that it can't store anything
+export class StorageConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'StorageConfigError'
+  }
+}
+
+// Unset means firestore; anything else unrecognised is a typo, not a choice
+function configuredBackend(): StorageBackend {
+  const value = process.env.NEXT_PUBLIC_STORAGE_BACKEND
+  if (!value) return 'firestore'
+  if (Object.keys(stores).includes(value)) return value as StorageBackend
+  throw new StorageConfigError(
+    `Unknown NEXT_PUBLIC_STORAGE_BACKEND "${value}" — use one of ${Object.keys(stores).join(', ')}`
+  )
+}
+
+// The backend is fixed at build time by NEXT_PUBLIC_STORAGE_BACKEND
+export const sessionStore: SessionStore = stores[configuredBackend()]
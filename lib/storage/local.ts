@@ -0,0 +1,155 @@
+// lib/storage/local.ts
+// Keeps sessions in this browser's localStorage only — for fully offline use.
+import {
+  RotationError,
+  applyCommand,
+  assertFreshCommand,
+  assertFreshSave
+} from '../rotation'
+import {
+  SessionDocument,
+  generateSessionCode,
+  newSessionDocument,
+  sessionSummary,
+  sortByRecentActivity,
+  splitSessionDocument
+} from '../session'
+import { SessionArchive, summarizeArchive } from '../archive'
+import { legacySessionDocument } from '../legacySession'
+import type { PoolPlayer } from '../players'
+import type { SessionStore } from './types'
+
+const KEY_PREFIX = 'football_session:'
+const PLAYER_POOL_KEY = 'football_player_pool'
+const ARCHIVE_PREFIX = 'football_archive:'
+
+const storageKey = (code: string) => `${KEY_PREFIX}${code}`
+
+function readSession(code: string): SessionDocument | null {
+  const saved = localStorage.getItem(storageKey(code))
+  return saved ? (JSON.parse(saved) as SessionDocument) : null
+}
+
+function writeSession(data: SessionDocument): void {
+  localStorage.setItem(storageKey(data.code), JSON.stringify(data))
+}
+
+export const localStore: SessionStore = {
+  backend: 'local',
+  shared: false,
+
+  async createSession(name, deviceId) {
+    let code = generateSessionCode()
+    while (readSession(code)) code = generateSessionCode()
+    const data = newSessionDocument(code, name, deviceId)
+    writeSession(data)
+    return sessionSummary(data)
+  },
+
+  // Only this device ever had the old game
+  async importLegacySession(deviceId, cached) {
+    let code = generateSessionCode()
+    while (readSession(code)) code = generateSessionCode()
+    const data = legacySessionDocument(cached, code, deviceId)
+    if (!data) return null
+    writeSession(data)
+    return sessionSummary(data)
+  },
+
+  async listActiveSessions() {
+    const found: SessionDocument[] = []
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i)
+      if (!key?.startsWith(KEY_PREFIX)) continue
+      const data = readSession(key.slice(KEY_PREFIX.length))
+      if (data?.active) found.push(data)
+    }
+    return sortByRecentActivity(found.map(sessionSummary))
+  },
+
+  subscribeToSession(code, deviceId, onUpdate, onError) {
+    const emit = (remote: boolean) => {
+      try {
+        const data = readSession(code)
+        if (!data) onUpdate({ session: null, state: null, remote })
+        else onUpdate({ ...splitSessionDocument(data), remote })
+      } catch (e) {
+        onError(e as Error)
+      }
+    }
+    // Deliver the initial load asynchronously, like the cloud backends do
+    const initial = setTimeout(() => emit(false), 0)
+    // Storage events only fire for writes made in other tabs
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === storageKey(code)) emit(true)
+    }
+    window.addEventListener('storage', onStorage)
+    return () => {
+      clearTimeout(initial)
+      window.removeEventListener('storage', onStorage)
+    }
+  },
+
+  async saveSession(code, state, deviceId, basis) {
+    const data = readSession(code)
+    if (!data) throw new RotationError(`No session found with code ${code}`)
+    assertFreshSave(splitSessionDocument(data).state, basis)
+    writeSession({ ...data, state, active: state !== null, updated_by: deviceId, updated_at: Date.now() })
+  },
+
+  async applySessionCommand(code, command, basis, deviceId) {
+    const data = readSession(code)
+    const current = data ? splitSessionDocument(data).state : null
+    if (!data || !current) throw new RotationError('There is no game in progress in this session')
+    assertFreshCommand(current, command, basis)
+    const next = applyCommand(current, command)
+    writeSession({ ...data, state: next, updated_by: deviceId, updated_at: Date.now() })
+    return next
+  },
+
+  joinPresence(code, deviceId, onCount) {
+    onCount(1)
+    return () => {}
+  },
+
+  // Whoever holds this browser runs its sessions
+  async getRole() {
+    return 'owner'
+  },
+
+  async claimSession() {},
+
+  async createInvite() {
+    throw new RotationError('Sessions stored in this browser can\'t be shared')
+  },
+
+  async acceptInvite() {},
+
+  async loadPlayerPool() {
+    const saved = localStorage.getItem(PLAYER_POOL_KEY)
+    return saved ? (JSON.parse(saved) as PoolPlayer[]) : []
+  },
+
+  async savePlayerPool(code, players) {
+    localStorage.setItem(PLAYER_POOL_KEY, JSON.stringify(players))
+  },
+
+  async archiveSession(archive) {
+    localStorage.setItem(`${ARCHIVE_PREFIX}${archive.id}`, JSON.stringify(archive))
+  },
+
+  async listArchives() {
+    const found: SessionArchive[] = []
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i)
+      if (!key?.startsWith(ARCHIVE_PREFIX)) continue
+      found.push(JSON.parse(localStorage.getItem(key)!) as SessionArchive)
+    }
+    return found.map(summarizeArchive).sort((a, b) => b.ended_at - a.ended_at)
+  },
+
+  async getArchive(id) {
+    const saved = localStorage.getItem(`${ARCHIVE_PREFIX}${id}`)
+    return saved ? (JSON.parse(saved) as SessionArchive) : null
+  }
+}
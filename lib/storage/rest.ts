@@ -0,0 +1,196 @@
+// lib/storage/rest.ts
+// Talks to our own backend at NEXT_PUBLIC_API_URL. The server is expected to
+// apply commands atomically and answer 409 when a command is stale.
+import axios, { AxiosError } from 'axios'
+import { RotationError, StaleCommandError, loadGameState } from '../rotation'
+import type { GameState } from '../rotation'
+import { SessionDocument, SessionSummary, splitSessionDocument } from '../session'
+import type { ArchiveSummary, SessionArchive } from '../archive'
+import { PermissionDeniedError, SessionRole, getIdToken } from '../auth'
+import { LEGACY_SESSION_NAME } from '../legacySession'
+import type { PoolPlayer } from '../players'
+import type { SessionStore } from './types'
+
+// There's no push channel, so listeners poll for changes
+const POLL_INTERVAL_MS = 3000
+const PRESENCE_HEARTBEAT_MS = 20_000
+
+const api = axios.create({
+  baseURL: process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000',
+  timeout: 10_000
+})
+
+// The server checks roles itself from the Firebase ID token
+api.interceptors.request.use(async (config) => {
+  const token = await getIdToken()
+  if (token) config.headers.Authorization = `Bearer ${token}`
+  return config
+})
+
+function errorMessage(error: AxiosError): string {
+  const data = error.response?.data as { message?: string; detail?: string } | undefined
+  return data?.message ?? data?.detail ?? error.message
+}
+
+// Map rejections the server made on purpose onto the engine's own errors
+function toRotationError(error: unknown): unknown {
+  if (!axios.isAxiosError(error) || !error.response) return error
+  if (error.response.status === 409) return new StaleCommandError(errorMessage(error))
+  if (error.response.status === 401 || error.response.status === 403) {
+    return new PermissionDeniedError(errorMessage(error))
+  }
+  if (error.response.status === 404 || error.response.status === 422) {
+    return new RotationError(errorMessage(error))
+  }
+  return error
+}
+
+export const restStore: SessionStore = {
+  backend: 'rest',
+  shared: true,
+
+  async createSession(name, deviceId) {
+    const { data } = await api.post<SessionSummary>('/sessions', { name, device_id: deviceId })
+    return data
+  },
+
+  async listActiveSessions() {
+    const { data } = await api.get<SessionSummary[]>('/sessions', { params: { active: true } })
+    return data
+  },
+
+  // The server never had the old shared game, so only a device's copy can be moved
+  async importLegacySession(deviceId, cached) {
+    const state = loadGameState(cached)
+    if (!state) return null
+    const session = await restStore.createSession(LEGACY_SESSION_NAME, deviceId)
+    await restStore.saveSession(session.code, state, deviceId, null)
+    return session
+  },
+
+  subscribeToSession(code, deviceId, onUpdate, onError) {
+    let lastUpdatedAt: number | null = null
+    let stopped = false
+
+    const poll = async () => {
+      try {
+        const { data } = await api.get<SessionDocument>(`/sessions/${code}`)
+        if (stopped || data.updated_at === lastUpdatedAt) return
+        lastUpdatedAt = data.updated_at
+        onUpdate({ ...splitSessionDocument(data), remote: data.updated_by !== deviceId })
+      } catch (e) {
+        if (stopped) return
+        if (axios.isAxiosError(e) && e.response?.status === 404) {
+          onUpdate({ session: null, state: null, remote: false })
+        } else {
+          onError(e as Error)
+        }
+      }
+    }
+    poll()
+    const timer = setInterval(poll, POLL_INTERVAL_MS)
+    return () => {
+      stopped = true
+      clearInterval(timer)
+    }
+  },
+
+  async saveSession(code, state, deviceId, basis) {
+    try {
+      await api.put(`/sessions/${code}/state`, { state, basis, device_id: deviceId })
+    } catch (e) {
+      throw toRotationError(e)
+    }
+  },
+
+  async applySessionCommand(code, command, basis, deviceId) {
+    try {
+      const { data } = await api.post<GameState>(`/sessions/${code}/commands`, {
+        command,
+        basis,
+        device_id: deviceId
+      })
+      return data
+    } catch (e) {
+      throw toRotationError(e)
+    }
+  },
+
+  joinPresence(code, deviceId, onCount) {
+    const heartbeat = async () => {
+      try {
+        const { data } = await api.post<{ connected: number }>(`/sessions/${code}/presence`, {
+          device_id: deviceId
+        })
+        onCount(data.connected)
+      } catch (e) {
+        console.error('Failed to update presence:', e)
+      }
+    }
+    heartbeat()
+    const timer = setInterval(heartbeat, PRESENCE_HEARTBEAT_MS)
+    return () => {
+      clearInterval(timer)
+      api.delete(`/sessions/${code}/presence/${deviceId}`).catch(() => {})
+    }
+  },
+
+  async getRole(code) {
+    // The token, not the uid, is what the server trusts
+    const { data } = await api.get<{ role: SessionRole }>(`/sessions/${code}/role`)
+    return data.role
+  },
+
+  async claimSession(code) {
+    try {
+      await api.post(`/sessions/${code}/owner`)
+    } catch (e) {
+      throw toRotationError(e)
+    }
+  },
+
+  async createInvite(code) {
+    try {
+      const { data } = await api.post<{ token: string }>(`/sessions/${code}/invites`)
+      return data.token
+    } catch (e) {
+      throw toRotationError(e)
+    }
+  },
+
+  async acceptInvite(code, token) {
+    try {
+      await api.post(`/sessions/${code}/members`, { invite: token })
+    } catch (e) {
+      throw toRotationError(e)
+    }
+  },
+
+  async loadPlayerPool() {
+    const { data } = await api.get<PoolPlayer[]>('/players')
+    return data
+  },
+
+  async savePlayerPool(code, players) {
+    await api.put('/players', players)
+  },
+
+  async archiveSession(archive) {
+    await api.put(`/archives/${archive.id}`, archive)
+  },
+
+  async listArchives() {
+    const { data } = await api.get<ArchiveSummary[]>('/archives')
+    return data
+  },
+
+  async getArchive(id) {
+    try {
+      const { data } = await api.get<SessionArchive>(`/archives/${id}`)
+      return data
+    } catch (e) {
+      if (axios.isAxiosError(e) && e.response?.status === 404) return null
+      throw e
+    }
+  }
+}
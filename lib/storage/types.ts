@@ -0,0 +1,66 @@
+// lib/storage/types.ts
+import type { ArchiveSummary, SessionArchive } from '../archive'
+import type { SessionRole } from '../auth'
+import type { CommandBasis, GameState, RotationCommand } from '../rotation'
+import type { PoolPlayer } from '../players'
+import type { SessionSummary, SessionUpdate } from '../session'
+
+export type StorageBackend = 'local' | 'firestore' | 'rest'
+
+/**
+ * Everything the app needs from a persistence backend. Implementations must
+ * apply commands atomically and reject stale ones with StaleCommandError.
+ */
+export interface SessionStore {
+  readonly backend: StorageBackend
+  // False for backends that only live in this browser. Shared backends need
+  // a signed-in user to create or organise a session.
+  readonly shared: boolean
+
+  // The signed-in user becomes the session's owner
+  createSession(name: string, deviceId: string): Promise<SessionSummary>
+  listActiveSessions(): Promise<SessionSummary[]>
+  // Moves the one game everybody shared before sessions had codes into a new
+  // session, once. `cached` is this device's copy of it, used where the
+  // backend never had one. Resolves null when there's nothing to move.
+  importLegacySession(deviceId: string, cached: unknown): Promise<SessionSummary | null>
+  // The first update is the initial load; returns an unsubscribe function
+  subscribeToSession(
+    code: string,
+    deviceId: string,
+    onUpdate: (update: SessionUpdate) => void,
+    onError: (error: Error) => void
+  ): () => void
+  // Replace the game state wholesale — used to start and end games. Refused
+  // with a StaleCommandError if the stored game has moved on from `basis`;
+  // a null basis saves regardless. Only resolves once the backend has it.
+  saveSession(code: string, state: GameState | null, deviceId: string, basis: CommandBasis | null): Promise<void>
+  applySessionCommand(
+    code: string,
+    command: RotationCommand,
+    basis: CommandBasis,
+    deviceId: string
+  ): Promise<GameState>
+  // Reports how many devices have the session open; returns a cleanup function
+  joinPresence(code: string, deviceId: string, onCount: (count: number) => void): () => void
+
+  // What `uid` (null when signed out) may do in the session
+  getRole(code: string, uid: string | null): Promise<SessionRole>
+  // Makes the signed-in user the owner of a session nobody owns yet
+  claimSession(code: string): Promise<void>
+  // Owner only; returns a token for an invite link that works once, for
+  // INVITE_LIFETIME_DAYS
+  createInvite(code: string): Promise<string>
+  // Makes the signed-in user an organiser
+  acceptInvite(code: string, token: string): Promise<void>
+
+  // Ended sessions, kept read-only
+  archiveSession(archive: SessionArchive): Promise<void>
+  listArchives(): Promise<ArchiveSummary[]>
+  getArchive(id: string): Promise<SessionArchive | null>
+
+  // The saved player pool used by the session — shared by all of its
+  // owner's sessions on backends that know about owners
+  loadPlayerPool(code: string): Promise<PoolPlayer[]>
+  savePlayerPool(code: string, players: PoolPlayer[]): Promise<void>
+}
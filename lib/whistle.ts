@@ -0,0 +1,53 @@
+// lib/whistle.ts
+// A referee's whistle synthesised with Web Audio, so there's no sound file to ship
+
+type AudioContextConstructor = typeof AudioContext
+
+let context: AudioContext | null = null
+
+function audioContext(): AudioContext | null {
+  if (context) return context
+  const Ctor: AudioContextConstructor | undefined =
+    window.AudioContext ?? (window as unknown as { webkitAudioContext?: AudioContextConstructor }).webkitAudioContext
+  if (!Ctor) return null
+  context = new Ctor()
+  return context
+}
+
+// Browsers only allow audio after a user gesture; call this from a tap handler
+export function unlockAudio(): void {
+  const ctx = audioContext()
+  if (ctx?.state === 'suspended') ctx.resume().catch(() => {})
+}
+
+// Three blasts, the last one long — full time
+export function playWhistle(): void {
+  const ctx = audioContext()
+  if (!ctx) return
+  const blasts: [number, number][] = [[0, 0.25], [0.35, 0.25], [0.7, 0.9]]
+  for (const [offset, length] of blasts) {
+    const start = ctx.currentTime + offset
+    const oscillator = ctx.createOscillator()
+    const trill = ctx.createOscillator()
+    const trillDepth = ctx.createGain()
+    const volume = ctx.createGain()
+
+    oscillator.type = 'sine'
+    oscillator.frequency.value = 2800
+    // The pea in the whistle: a fast wobble in pitch
+    trill.frequency.value = 30
+    trillDepth.gain.value = 120
+    trill.connect(trillDepth).connect(oscillator.frequency)
+
+    volume.gain.setValueAtTime(0, start)
+    volume.gain.linearRampToValueAtTime(0.3, start + 0.02)
+    volume.gain.setValueAtTime(0.3, start + length - 0.05)
+    volume.gain.linearRampToValueAtTime(0, start + length)
+    oscillator.connect(volume).connect(ctx.destination)
+
+    oscillator.start(start)
+    trill.start(start)
+    oscillator.stop(start + length)
+    trill.stop(start + length)
+  }
+}